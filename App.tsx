@@ -1,51 +1,39 @@
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { 
   Upload, Plus, LayoutDashboard, Filter, Database, FileSpreadsheet, 
   Trash2, Layers, AlertCircle, Hash, Type, Calendar, ArrowLeft, MoreVertical, Edit2, Check,
-  Square, CheckSquare, Columns, Maximize2, Grid, Rows, Radar, ChevronDown, ChevronUp, XCircle, X
+  Square, CheckSquare, Columns, Maximize2, Grid, Rows, Radar, ChevronDown, ChevronUp, XCircle, X,
+  FolderOpen, Download, GitMerge, RefreshCw, FileUp, Undo2, Redo2, Copy, BookmarkPlus, LayoutTemplate
 } from 'lucide-react';
 import _ from 'lodash';
 
-import { processExcelFile, Dataset, DataRow } from './lib/data';
-import { generateId, cn } from './lib/utils';
+import { createDataset, getSheetDatasetName, Dataset, DataRow, ParsedSheet, ColumnOverride, CalculatedField, MergeSpec, COLUMN_TYPE_LABELS } from './lib/data';
+import { generateId, cn, downloadBlob } from './lib/utils';
+import { Layout, WidgetItem, Board, GlobalSlicerState, Slicer, SplitLayout, getWidgetColumns, renameWidgetColumn, getCrossFilterTarget, getNextSelection, isSameLayout, duplicateBoard, pasteWidgets, removeWidgets } from './lib/board';
+import { isSlicerActive, getSlicerValues, describeSlicer, describeActiveFilters, getSlicerColumnType, getColumnBounds, getValueCounts, getSlicerColumns, getDatasetsMissingColumn } from './lib/filters';
+import { updateColumnSchema, setCalculatedFields, renameKey } from './lib/schema';
+import { buildReplacement, checkReplacement } from './lib/replace';
+import { exportBoardData } from './lib/exportData';
+import { BoardTemplate, TemplateMapping, createBoardTemplate, applyBoardTemplate } from './lib/template';
+import { WorkspaceSnapshot, History, EMPTY_HISTORY, HISTORY_MERGE_MS, pushHistory, undoHistory, redoHistory } from './lib/history';
+import { readDataFile, TextImportOptions, DATA_FILE_ACCEPT } from './lib/fileImport';
+import { createMergedDataset, rebuildMergedDataset, rebuildDerivedDatasets, renameMergeKey, getDependentDatasets } from './lib/merge';
+import { loadWorkspace, saveWorkspace, loadTemplates, saveTemplates } from './lib/storage';
+import { buildProjectFile, parseProjectFile, mergeProjectSlicers, PROJECT_FILE_EXTENSION } from './lib/project';
 import WidgetConfigModal from './components/WidgetConfigModal';
+import ExportProjectModal from './components/ExportProjectModal';
+import ImportModal, { ImportSelection } from './components/ImportModal';
+import DatasetSchemaPanel from './components/DatasetSchemaPanel';
+import CalculatedFieldsPanel from './components/CalculatedFieldsPanel';
+import MergeDatasetsModal from './components/MergeDatasetsModal';
+import BoardTemplateModal from './components/BoardTemplateModal';
+import WidgetClipboardBar from './components/WidgetClipboardBar';
+import SlicerEditor from './components/SlicerEditor';
 import BoardGrid from './components/BoardGrid';
+import BoardExportMenu from './components/BoardExportMenu';
 
 // --- Types ---
-interface Layout {
-  i: string;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  minW?: number;
-  minH?: number;
-}
-
-interface WidgetItem {
-  i: string;
-  datasetId: string; // Link widget to specific dataset
-  type: 'bar' | 'line' | 'pie' | 'timeline' | 'radar';
-  title: string;
-  config: any; 
-}
-
-interface Board {
-    id: string;
-    name: string;
-    layout: Layout[];
-    widgets: WidgetItem[];
-    filters?: { [key: string]: string[] }; // Board-specific filters
-    createdAt: number;
-}
-
-// Global Slicer State: { [columnName]: [selectedValues] }
-interface GlobalSlicerState {
-    [column: string]: string[];
-}
-
 type ViewMode = 'list' | 'detail' | 'split';
-type SplitLayout = 'grid' | 'horizontal' | 'vertical';
 
 export default function App() {
   // --- State ---
@@ -75,9 +63,25 @@ export default function App() {
   const [isConfigOpen, setIsConfigOpen] = useState(false);
   const [initialWidgetConfig, setInitialWidgetConfig] = useState<any>(null); 
   const [editingWidgetId, setEditingWidgetId] = useState<string | null>(null);
+  // Widgets picked on one board for copy / cut / move, and copies waiting to be pasted
+  const [widgetSelection, setWidgetSelection] = useState<{ boardId: string; ids: string[] } | null>(null);
+  const [widgetClipboard, setWidgetClipboard] = useState<{ widgets: WidgetItem[]; layout: Layout[] } | null>(null);
   // Important: track which board is being operated on (added for split view support)
   const [operatingBoardId, setOperatingBoardId] = useState<string | null>(null); 
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [isExportProjectOpen, setIsExportProjectOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+  const [templates, setTemplates] = useState<BoardTemplate[]>(() => loadTemplates());
+  // Workbook waiting for the user to pick sheets in the import dialog; `replaceId` is set
+  // when the file replaces the data of an existing dataset
+  const [pendingImport, setPendingImport] = useState<{
+      file: File;
+      fileName: string;
+      sheets: ParsedSheet[];
+      textOptions?: TextImportOptions;
+      replaceId?: string;
+  } | null>(null);
   
   // Board Rename State
   const [editingBoardId, setEditingBoardId] = useState<string | null>(null);
@@ -88,11 +92,137 @@ export default function App() {
       isOpen: boolean;
       title: string;
       message: string;
+      confirmLabel?: string;
       onConfirm: () => void;
   }>({ isOpen: false, title: "", message: "", onConfirm: () => {} });
 
+  // Persistence State: nothing is saved until the previous workspace has been restored
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+
+  // Undo / Redo
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const lastSnapshotRef = useRef<WorkspaceSnapshot | null>(null);
+  const lastChangeAtRef = useRef(0);
+  const isRestoringRef = useRef(false); // The next change comes from undo / redo itself
+
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Dataset the next picked file replaces, if any
+  const replaceTargetRef = useRef<string | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // --- Persistence ---
+  useEffect(() => {
+    loadWorkspace()
+      .then(saved => {
+        if (!saved) return;
+        setDatasets(saved.datasets);
+        setBoards(saved.boards);
+        setSlicers(saved.slicers);
+        setSelectedBoardIds(saved.selectedBoardIds.filter(id => saved.boards.some(b => b.id === id)));
+        setSplitLayout(saved.splitLayout);
+        const activeId = saved.activeDatasetId && saved.datasets.some(d => d.id === saved.activeDatasetId)
+            ? saved.activeDatasetId
+            : (saved.datasets[0]?.id ?? null);
+        setActiveDatasetId(activeId);
+      })
+      .catch(err => {
+        console.error("Failed to restore workspace", err);
+        alert("上次保存的工作区无法恢复，将以空白工作区启动");
+      })
+      .finally(() => setIsWorkspaceLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    saveWorkspace(
+        { boards, slicers, selectedBoardIds, splitLayout, activeDatasetId },
+        datasets
+    ).catch(err => console.error("Failed to save workspace", err));
+  }, [isWorkspaceLoaded, datasets, boards, slicers, selectedBoardIds, splitLayout, activeDatasetId]);
+
+  useEffect(() => {
+    saveTemplates(templates);
+  }, [templates]);
+
+  // --- History ---
+  // Every change to boards, datasets or global slicers records the state before it
+  useEffect(() => {
+    if (!isWorkspaceLoaded) return;
+    const previous = lastSnapshotRef.current;
+    const current = { boards, datasets, slicers };
+    lastSnapshotRef.current = current;
+    if (!previous) return;
+    if (isRestoringRef.current) {
+        isRestoringRef.current = false;
+        return;
+    }
+    const now = Date.now();
+    const merge = now - lastChangeAtRef.current < HISTORY_MERGE_MS;
+    lastChangeAtRef.current = now;
+    setHistory(prev => merge && prev.past.length > 0 ? { ...prev, future: [] } : pushHistory(prev, previous, current));
+  }, [isWorkspaceLoaded, boards, datasets, slicers]);
+
+  const restoreSnapshot = (snapshot: WorkspaceSnapshot) => {
+      if (snapshot.boards === boards && snapshot.datasets === datasets && snapshot.slicers === slicers) return;
+      isRestoringRef.current = true;
+      lastChangeAtRef.current = 0;
+      setBoards(snapshot.boards);
+      setDatasets(snapshot.datasets);
+      setSlicers(snapshot.slicers);
+      // View state may point at boards or datasets the snapshot does not have
+      setSelectedBoardIds(prev => prev.filter(id => snapshot.boards.some(b => b.id === id)));
+      if (activeBoardId && !snapshot.boards.some(b => b.id === activeBoardId)) goToListView();
+      if (!snapshot.datasets.some(d => d.id === activeDatasetId)) setActiveDatasetId(snapshot.datasets[0]?.id ?? null);
+  };
+
+  const handleUndo = () => {
+      const result = undoHistory(history, { boards, datasets, slicers });
+      if (!result) return;
+      setHistory(result.history);
+      restoreSnapshot(result.snapshot);
+  };
+
+  const handleRedo = () => {
+      const result = redoHistory(history, { boards, datasets, slicers });
+      if (!result) return;
+      setHistory(result.history);
+      restoreSnapshot(result.snapshot);
+  };
+
+  // Ctrl+Z / Ctrl+Y (Ctrl+Shift+Z), and Ctrl+C / X / D / V for picked widgets, except while
+  // a text field or a dialog has the focus
+  const isDialogOpen = isConfigOpen || isExportProjectOpen || isMergeOpen || isTemplateOpen || !!pendingImport || confirmState.isOpen;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey || isDialogOpen) return;
+        if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            handleUndo();
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+            e.preventDefault();
+            handleRedo();
+        } else if (['c', 'x', 'd'].includes(key) && getSelectedWidgets() && !window.getSelection()?.toString()) {
+            // Selected page text keeps the browser's own copy / cut
+            e.preventDefault();
+            if (key === 'c') handleCopyWidgets();
+            else if (key === 'x') handleCutWidgets();
+            else handleDuplicateWidgets();
+        } else if (key === 'v' && widgetClipboard) {
+            // Into the board on screen, or in split view the one widgets were last picked on
+            const targetId = viewMode === 'detail' ? activeBoardId
+                : viewMode === 'split' ? (widgetSelection?.boardId ?? (splitBoards.length === 1 ? splitBoards[0].id : null))
+                : null;
+            if (!targetId) return;
+            e.preventDefault();
+            handlePasteWidgets(targetId);
+        }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
 
   // --- Computed Data ---
   const activeDataset = useMemo(() => 
@@ -108,22 +238,24 @@ export default function App() {
     boards.filter(b => selectedBoardIds.includes(b.id))
   , [boards, selectedBoardIds]);
 
-  // Updated: Calculate common columns using ALL columns (not just textColumns)
-  const commonColumns = useMemo(() => {
-      if (datasets.length === 0) return [];
-      if (datasets.length === 1) return datasets[0].columns;
+  // Every column of any dataset; one that only some datasets have can still be sliced,
+  // and its slicer says what happens to the others
+  const slicerColumns = useMemo(() => getSlicerColumns(datasets), [datasets]);
 
-      // Global intersection of ALL datasets columns
-      const allCols = datasets.map(d => d.columns);
-      return _.intersection(...allCols);
-  }, [datasets]);
+  // Sidebar slicers: the first columns, plus any column that already has an active
+  // global slicer (e.g. set by cross-filtering) so it can always be seen and cleared
+  const globalSlicerColumns = useMemo(() => {
+      const active = Object.keys(slicers).filter(col => isSlicerActive(slicers[col]));
+      return _.uniq([...active, ...slicerColumns.slice(0, 10)]);
+  }, [slicers, slicerColumns]);
 
   // --- Helper: Request Confirmation ---
-  const requestConfirm = (title: string, message: string, onConfirm: () => void) => {
+  const requestConfirm = (title: string, message: string, onConfirm: () => void, confirmLabel?: string) => {
       setConfirmState({
           isOpen: true,
           title,
           message,
+          confirmLabel,
           onConfirm
       });
   };
@@ -133,8 +265,22 @@ export default function App() {
       setConfirmState(prev => ({ ...prev, isOpen: false }));
   };
 
+  // Tooltip for field chips: how sure inference was about the column type
+  const getColumnHint = (ds: Dataset, col: string) => {
+      const stats = ds.columnStats?.[col];
+      if (!stats) return col;
+      return `${col}\n类型置信度 ${Math.round(stats.confidence * 100)}% · 空值 ${stats.nullCount} 行`;
+  };
+
   // --- Data Logic ---
   const handleImportClick = () => {
+    replaceTargetRef.current = null;
+    fileInputRef.current?.click();
+  };
+
+  const handleReplaceClick = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    replaceTargetRef.current = id;
     fileInputRef.current?.click();
   };
 
@@ -142,11 +288,10 @@ export default function App() {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       try {
-        const newData = await processExcelFile(file);
-        setDatasets(prev => [...prev, newData]);
-        setActiveDatasetId(newData.id);
+        const { sheets, textOptions } = await readDataFile(file);
+        setPendingImport({ file, fileName: file.name, sheets, textOptions, replaceId: replaceTargetRef.current || undefined });
       } catch (err) {
-        alert("文件解析失败，请检查是否为有效的 Excel 文件");
+        alert("文件解析失败，请检查是否为有效的 Excel / CSV / JSON 文件");
         console.error(err);
       } finally {
         if (fileInputRef.current) {
@@ -156,13 +301,174 @@ export default function App() {
     }
   };
 
+  // Re-reads a text file with the encoding / delimiter picked in the preview
+  const handleChangeTextOptions = async (options: TextImportOptions) => {
+      if (!pendingImport) return;
+      try {
+          const { sheets, textOptions } = await readDataFile(pendingImport.file, options);
+          setPendingImport(prev => prev && { ...prev, sheets, textOptions });
+      } catch (err) {
+          alert("按所选设置无法解析该文件：" + (err as Error).message);
+      }
+  };
+
+  const handleImportSheets = (selections: ImportSelection[]) => {
+      if (!pendingImport) return;
+      const { fileName, sheets, replaceId } = pendingImport;
+      if (replaceId) {
+          if (selections[0]) handleReplaceDataset(replaceId, selections[0]);
+          return;
+      }
+      const newDatasets = selections.map(s => ({
+          ...createDataset(getSheetDatasetName(fileName, s.sheetName, sheets.length), s.rows),
+          importOptions: s.options
+      }));
+      if (newDatasets.length === 0) return;
+
+      setDatasets(prev => [...prev, ...newDatasets]);
+      setActiveDatasetId(newDatasets[0].id);
+      setPendingImport(null);
+  };
+
+  // Swaps in the rows of a newer file under the same dataset id. Columns that widgets
+  // use but the new file lacks or types differently are reported before anything changes.
+  const handleReplaceDataset = (id: string, selection: ImportSelection) => {
+      const current = datasets.find(d => d.id === id);
+      if (!current) return;
+      let next: Dataset;
+      try {
+          next = { ...buildReplacement(current, selection.rows), importOptions: selection.options };
+      } catch (err) {
+          alert("替换失败：" + (err as Error).message);
+          return;
+      }
+      setPendingImport(null);
+
+      const apply = () => commitDatasetUpdate(next);
+      const issues = checkReplacement(current, next, boards);
+      if (issues.length === 0) {
+          apply();
+          return;
+      }
+      const lines = issues.map(issue => {
+          const change = issue.problem === 'missing'
+              ? '在新文件中不存在'
+              : `类型由${COLUMN_TYPE_LABELS[issue.fromType]}变为${COLUMN_TYPE_LABELS[issue.toType!]}`;
+          return `• 「${issue.column}」${change}（${issue.widgets.join('、')}）`;
+      });
+      requestConfirm(
+          "替换数据",
+          `新文件与图表所用字段不一致，相关图表可能无法正常显示：\n${lines.join('\n')}\n\n仍要替换吗？`,
+          apply,
+          "仍然替换"
+      );
+  };
+
+  // Schema edits from the sidebar panel
+  const handleUpdateColumn = (datasetId: string, col: string, change: ColumnOverride) => {
+      const ds = datasets.find(d => d.id === datasetId);
+      if (!ds) return;
+      let updated: Dataset;
+      try {
+          updated = updateColumnSchema(ds, col, change);
+      } catch (err) {
+          alert("字段修改失败：" + (err as Error).message);
+          return;
+      }
+      const newName = change.name?.trim();
+      const renamed = !!newName && newName !== col;
+      commitDatasetUpdate(updated, renamed ? { from: col, to: newName! } : undefined);
+      if (renamed) renameColumnReferences(datasetId, col, newName!);
+  };
+
+  // Stores a changed dataset and rebuilds the merged datasets built from it. A column
+  // rename is followed into their join keys first.
+  const commitDatasetUpdate = (updated: Dataset, rename?: { from: string; to: string }) => {
+      const replaced = datasets.map(d => {
+          if (d.id === updated.id) return updated;
+          return rename ? renameMergeKey(d, updated.id, rename.from, rename.to) : d;
+      });
+      const result = rebuildDerivedDatasets(replaced, [updated.id]);
+      setDatasets(result.datasets);
+      if (result.failed.length > 0) {
+          alert("以下合并数据源未能重新生成，仍保留原数据：\n" + result.failed.map(f => `${f.name}：${f.error}`).join('\n'));
+      }
+  };
+
+  // Carries a column rename in one dataset through to the widgets, board filters and
+  // global slicers that reference it.
+  const renameColumnReferences = (datasetId: string, col: string, newName: string) => {
+      // Only move a filter/slicer key when no other dataset in its scope still has the old column
+      const otherHasColumn = (ids: Set<string>) =>
+          datasets.some(d => d.id !== datasetId && ids.has(d.id) && d.columns.includes(col));
+
+      setBoards(prev => prev.map(b => {
+          if (!b.widgets.some(w => w.datasetId === datasetId)) return b;
+          const usedIds = new Set(b.widgets.map(w => w.datasetId));
+          return {
+              ...b,
+              widgets: b.widgets.map(w => w.datasetId === datasetId ? renameWidgetColumn(w, col, newName) : w),
+              filters: b.filters && !otherHasColumn(usedIds) ? renameKey(b.filters, col, newName) : b.filters
+          };
+      }));
+      if (!otherHasColumn(new Set(datasets.map(d => d.id)))) {
+          setSlicers(prev => renameKey(prev, col, newName));
+      }
+  };
+
+  // Returns false when the fields are rejected, so the editor stays open
+  const handleUpdateCalculatedFields = (datasetId: string, fields: CalculatedField[], rename?: { from: string; to: string }) => {
+      const ds = datasets.find(d => d.id === datasetId);
+      if (!ds) return false;
+      let updated: Dataset;
+      try {
+          updated = setCalculatedFields(ds, fields);
+      } catch (err) {
+          alert("计算字段保存失败：" + (err as Error).message);
+          return false;
+      }
+      commitDatasetUpdate(updated, rename);
+      if (rename) renameColumnReferences(datasetId, rename.from, rename.to);
+      return true;
+  };
+
+  const handleMergeDatasets = (name: string, spec: MergeSpec) => {
+      let merged: Dataset;
+      try {
+          merged = createMergedDataset(name, spec, datasets);
+      } catch (err) {
+          alert("合并失败：" + (err as Error).message);
+          return;
+      }
+      setDatasets(prev => [...prev, merged]);
+      setActiveDatasetId(merged.id);
+      setIsMergeOpen(false);
+  };
+
+  // Re-runs a merge against the current version of its sources
+  const handleRebuildDataset = (id: string, e: React.MouseEvent) => {
+      e.stopPropagation();
+      const ds = datasets.find(d => d.id === id);
+      if (!ds?.derivedFrom) return;
+      try {
+          commitDatasetUpdate(rebuildMergedDataset(ds, datasets));
+      } catch (err) {
+          alert("重新生成失败：" + (err as Error).message);
+      }
+  };
+
   const removeDataset = (id: string, e: React.MouseEvent) => {
       e.preventDefault();
       e.stopPropagation();
       
+      // Merged datasets built from this one keep their rows but stop following the source
+      const dependents = getDependentDatasets(datasets, id);
+      const dependentNote = dependents.length > 0
+          ? `\n\n以下合并数据源由它生成，删除后它们保留现有数据，但不再随源数据更新：${dependents.map(d => d.name).join('、')}`
+          : '';
       requestConfirm(
           "删除数据源", 
-          "确定要删除此数据源吗？\n删除后，所有看板中依赖此文件的图表也将被自动移除。", 
+          "确定要删除此数据源吗？\n删除后，所有看板中依赖此文件的图表也将被自动移除（可撤销 Ctrl+Z 恢复）。" + dependentNote, 
           () => {
             const newDatasets = datasets.filter(d => d.id !== id);
             setDatasets(newDatasets);
@@ -185,6 +491,71 @@ export default function App() {
       );
   };
 
+  // --- Project Files ---
+  const projectDatasetCount = useMemo(() => {
+      const usedIds = new Set(boards.flatMap(b => b.widgets.map(w => w.datasetId)));
+      return datasets.filter(d => usedIds.has(d.id)).length;
+  }, [boards, datasets]);
+
+  const handleExportProject = (fileName: string, includeData: boolean) => {
+      const blob = buildProjectFile(boards, slicers, datasets, includeData);
+      downloadBlob(blob, `${fileName}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const file = e.target.files[0];
+      try {
+        const project = parseProjectFile(await file.text());
+        const existingIds = new Set(datasets.map(d => d.id));
+        const newDatasets = project.datasets.filter(d => !existingIds.has(d.id));
+        const availableIds = new Set([...existingIds, ...newDatasets.map(d => d.id)]);
+
+        setDatasets(prev => [...prev, ...newDatasets]);
+        setBoards(prev => [...prev, ...project.boards]);
+        const merged = mergeProjectSlicers(slicers, project.slicers);
+        setSlicers(merged.slicers);
+        if (!activeDatasetId && newDatasets.length > 0) {
+            setActiveDatasetId(newDatasets[0].id);
+        }
+
+        const unboundCount = project.boards
+            .flatMap(b => b.widgets)
+            .filter(w => !availableIds.has(w.datasetId)).length;
+        const notes = [
+            unboundCount > 0 ? `其中 ${unboundCount} 个组件的数据源未包含在项目中，请导入字段相同的数据文件后，在组件上重新绑定数据源。` : '',
+            merged.skipped.length > 0 ? `以下公共切片器当前已有设置，保留现有设置、未使用项目中的：${merged.skipped.join('、')}` : ''
+        ].filter(Boolean);
+        if (notes.length > 0) {
+            alert(`已导入 ${project.boards.length} 个看板。\n${notes.join('\n')}`);
+        }
+      } catch (err) {
+        alert("项目文件解析失败，请检查是否为有效的 .dashboard 文件");
+        console.error(err);
+      } finally {
+        if (projectInputRef.current) {
+            projectInputRef.current.value = '';
+        }
+      }
+    }
+  };
+
+  // Re-bind every widget that pointed at the same missing dataset, as long as the
+  // target dataset has all the columns that widget uses.
+  const handleRebindWidget = (widget: WidgetItem, datasetId: string) => {
+      const target = datasets.find(d => d.id === datasetId);
+      if (!target) return;
+      const oldId = widget.datasetId;
+      setBoards(prev => prev.map(b => ({
+          ...b,
+          widgets: b.widgets.map(w => {
+              if (w.datasetId !== oldId) return w;
+              const fits = getWidgetColumns(w).every(col => target.columns.includes(col));
+              return fits ? { ...w, datasetId } : w;
+          })
+      })));
+  };
+
   // --- Board Management ---
   const handleAddBoard = () => {
       const newBoard: Board = {
@@ -198,6 +569,54 @@ export default function App() {
       setBoards(prev => [...prev, newBoard]);
   };
 
+  // The copy goes right after the original
+  const handleDuplicateBoard = (board: Board, e: React.MouseEvent) => {
+      e.stopPropagation();
+      const copy = duplicateBoard(board, `${board.name} 副本`);
+      setBoards(prev => {
+          const index = prev.findIndex(b => b.id === board.id);
+          return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+      });
+  };
+
+  // --- Board Templates ---
+  const handleSaveAsTemplate = (board: Board, e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (board.widgets.length === 0) return alert("看板中没有图表，无法保存为模板");
+      const template = createBoardTemplate(board, datasets, board.name);
+      const existing = templates.find(t => t.name === board.name);
+      const save = () => {
+          setTemplates(prev => [...prev.filter(t => t.id !== existing?.id), template]);
+          alert(`已保存为模板“${template.name}”，可在看板列表中“从模板新建”`);
+      };
+      if (existing) {
+          requestConfirm("覆盖模板", `已有名为“${board.name}”的模板，是否用当前看板覆盖？`, save, "覆盖");
+      } else {
+          save();
+      }
+  };
+
+  const handleApplyTemplate = (template: BoardTemplate, datasetId: string, mapping: TemplateMapping, name: string) => {
+      const ds = datasets.find(d => d.id === datasetId);
+      if (!ds) return;
+      try {
+          const board = applyBoardTemplate(template, ds, mapping, name);
+          setBoards(prev => [...prev, board]);
+          setIsTemplateOpen(false);
+          setActiveDatasetId(ds.id);
+          goToDetailView(board.id);
+      } catch (err) {
+          alert("创建失败：" + (err as Error).message);
+      }
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+      const template = templates.find(t => t.id === id);
+      requestConfirm("删除模板", `确定要删除模板“${template?.name}”吗？`, () => {
+          setTemplates(prev => prev.filter(t => t.id !== id));
+      });
+  };
+
   const handleDeleteBoard = (boardId: string, e: React.MouseEvent) => {
       e.stopPropagation();
       requestConfirm("删除看板", "确定要删除这个看板吗？", () => {
@@ -228,6 +647,7 @@ export default function App() {
 
   // --- View Mode Logic ---
   const goToDetailView = (boardId: string) => {
+      setWidgetSelection(null);
       setActiveBoardId(boardId);
       setViewMode('detail');
       setIsDetailFilterOpen(false); 
@@ -235,18 +655,32 @@ export default function App() {
   };
 
   const goToListView = () => {
+      setWidgetSelection(null);
       setActiveBoardId(null);
       setViewMode('list');
       setOperatingBoardId(null);
   };
 
   const goToSplitView = () => {
+      setWidgetSelection(null);
       if (selectedBoardIds.length === 0) return;
       setViewMode('split');
       setSplitLayout('grid'); 
       setOperatingBoardId(null);
   };
 
+  // The grid wrapper of a board shown in the detail or split view, for image/PDF export
+  const getBoardExportElement = (boardId: string) =>
+      document.querySelector<HTMLElement>(`[data-board-export="${boardId}"]`);
+
+  const handleExportBoardData = (board: Board) => {
+      try {
+          downloadBlob(exportBoardData(board, datasets, slicers), `${board.name}.xlsx`);
+      } catch (err) {
+          alert("导出失败：" + (err as Error).message);
+      }
+  };
+
   const toggleBoardSelection = (boardId: string, e: React.MouseEvent) => {
       e.stopPropagation();
       setSelectedBoardIds(prev => {
@@ -295,8 +729,8 @@ export default function App() {
             i: id,
             x: (targetBoard?.widgets.length || 0 * 4) % 12,
             y: Infinity,
-            w: config.type === 'timeline' ? 3 : 4,
-            h: config.type === 'timeline' ? 8 : 6,
+            w: config.type === 'timeline' || config.type === 'kpi' ? 3 : (config.type === 'table' ? 6 : 4),
+            h: config.type === 'timeline' ? 8 : (config.type === 'kpi' ? 3 : 6),
             minW: 2, minH: 3
         };
 
@@ -336,12 +770,92 @@ export default function App() {
     }));
   };
 
+  // --- Widget Clipboard ---
+  // Picked widgets that still exist on their board
+  const getSelectedIds = (board: Board) =>
+      widgetSelection?.boardId === board.id ? widgetSelection.ids.filter(id => board.widgets.some(w => w.i === id)) : [];
+
+  const getSelectedWidgets = () => {
+      const board = boards.find(b => b.id === widgetSelection?.boardId);
+      const ids = board ? getSelectedIds(board) : [];
+      if (!board || ids.length === 0) return null;
+      return {
+          board,
+          ids,
+          widgets: board.widgets.filter(w => ids.includes(w.i)),
+          layout: board.layout.filter(l => ids.includes(l.i))
+      };
+  };
+
+  // Picking on another board starts a new selection there
+  const handleToggleWidgetSelection = (boardId: string, widgetId: string) => {
+      setWidgetSelection(prev => {
+          const ids = prev?.boardId === boardId ? prev.ids : [];
+          const next = ids.includes(widgetId) ? ids.filter(id => id !== widgetId) : [...ids, widgetId];
+          return next.length > 0 ? { boardId, ids: next } : null;
+      });
+  };
+
+  const handleCopyWidgets = () => {
+      const selected = getSelectedWidgets();
+      if (!selected) return;
+      setWidgetClipboard({ widgets: selected.widgets, layout: selected.layout });
+  };
+
+  const handleCutWidgets = () => {
+      const selected = getSelectedWidgets();
+      if (!selected) return;
+      setWidgetClipboard({ widgets: selected.widgets, layout: selected.layout });
+      setBoards(prev => prev.map(b => b.id === selected.board.id ? removeWidgets(b, selected.ids) : b));
+      setWidgetSelection(null);
+  };
+
+  const handleDuplicateWidgets = () => {
+      const selected = getSelectedWidgets();
+      if (!selected) return;
+      setBoards(prev => prev.map(b => b.id === selected.board.id ? pasteWidgets(b, selected.widgets, selected.layout) : b));
+  };
+
+  const handleMoveWidgets = (targetBoardId: string) => {
+      const selected = getSelectedWidgets();
+      if (!selected || targetBoardId === selected.board.id) return;
+      setBoards(prev => prev.map(b => {
+          if (b.id === selected.board.id) return removeWidgets(b, selected.ids);
+          if (b.id === targetBoardId) return pasteWidgets(b, selected.widgets, selected.layout);
+          return b;
+      }));
+      setWidgetSelection(null);
+  };
+
+  // The clipboard is kept, so the same widgets can be pasted into several boards
+  const handlePasteWidgets = (boardId: string) => {
+      if (!widgetClipboard) return;
+      setBoards(prev => prev.map(b => b.id === boardId ? pasteWidgets(b, widgetClipboard.widgets, widgetClipboard.layout) : b));
+  };
+
+  const renderClipboardBar = (board: Board, compact?: boolean) => (
+      <WidgetClipboardBar
+          compact={compact}
+          selectedCount={getSelectedIds(board).length}
+          clipboardCount={widgetClipboard?.widgets.length || 0}
+          moveTargets={boards.filter(b => b.id !== board.id)}
+          onCopy={handleCopyWidgets}
+          onCut={handleCutWidgets}
+          onDuplicate={handleDuplicateWidgets}
+          onMove={handleMoveWidgets}
+          onPaste={() => handlePasteWidgets(board.id)}
+          onClearSelection={() => setWidgetSelection(null)}
+      />
+  );
+
   // Updated to accept boardId to support Split View layout changes
   const handleLayoutChange = (boardId: string, newLayout: Layout[]) => {
-    setBoards(prev => prev.map(b => {
-        if (b.id !== boardId) return b;
-        return { ...b, layout: newLayout };
-    }));
+    setBoards(prev => {
+        // Unchanged positions are reported too; keep the state (and the undo history) as is
+        const board = prev.find(b => b.id === boardId);
+        if (!board || isSameLayout(board.layout, newLayout)) return prev;
+        return prev.map(b => b.id === boardId ? { ...b, layout: newLayout } : b);
+    });
   };
 
   const handleFieldClick = (field: string, type: 'numeric' | 'text' | 'date') => {
@@ -364,79 +878,65 @@ export default function App() {
   };
 
   // --- Slicer Logic (Global & Local) ---
-  const toggleSlicerValue = (col: string, val: string, boardId?: string) => {
+  // Sets (or with undefined, removes) the slicer on a column: a board filter when boardId is given,
+  // otherwise a global slicer
+  const updateSlicer = (col: string, slicer: Slicer | undefined, boardId?: string) => {
+    const apply = (current: GlobalSlicerState = {}) => {
+        if (slicer) return { ...current, [col]: slicer };
+        const { [col]: _removed, ...rest } = current;
+        return rest;
+    };
     if (boardId) {
-        // Update Local Board Slicer
-        setBoards(prev => prev.map(b => {
-            if (b.id !== boardId) return b;
-            const currentFilters = b.filters || {};
-            const currentVals = currentFilters[col] || [];
-            let newVals;
-            if (currentVals.includes(val)) {
-                newVals = currentVals.filter(v => v !== val);
-            } else {
-                newVals = [...currentVals, val];
-            }
-            return {
-                ...b,
-                filters: {
-                    ...currentFilters,
-                    [col]: newVals
-                }
-            };
-        }));
+        setBoards(prev => prev.map(b => b.id === boardId ? { ...b, filters: apply(b.filters) } : b));
     } else {
-        // Update Global Slicer
-        setSlicers(prev => {
-            const currentVals = prev[col] || [];
-            let newVals;
-            if (currentVals.includes(val)) {
-                newVals = currentVals.filter(v => v !== val);
-            } else {
-                newVals = [...currentVals, val];
-            }
-            return { ...prev, [col]: newVals };
-        });
+        setSlicers(prev => apply(prev));
     }
   };
 
-  // Used for Global Slicers (All datasets)
-  const getGlobalUniqueValues = (col: string) => {
-      if (datasets.length === 0) return [];
-      let allValues: string[] = [];
-      datasets.forEach(ds => {
-          if (ds.columns.includes(col)) {
-              const vals = ds.rows.map(r => String(r[col]));
-              allValues = allValues.concat(vals);
-          }
-      });
-      return _.uniq(allValues).sort().slice(0, 50);
+  // Keeps the rest of an existing value slicer (exclude, missing-column mode) as it is
+  const setSlicerValues = (col: string, values: string[], boardId?: string) => {
+    const current = boardId ? boards.find(b => b.id === boardId)?.filters?.[col] : slicers[col];
+    const base = current?.kind === 'values' ? current : {};
+    updateSlicer(col, values.length > 0 ? { ...base, kind: 'values', values } : undefined, boardId);
+  };
+
+  // Cross-filtering: a click on a chart element selects its category in the widget's target scope
+  const handleSelectCategory = (boardId: string, widget: WidgetItem, category: string, additive: boolean) => {
+    const target = getCrossFilterTarget(widget);
+    if (target === 'off') return;
+    const col = widget.config.categoryCol;
+    const board = boards.find(b => b.id === boardId);
+    const current = getSlicerValues(target === 'global' ? slicers[col] : board?.filters?.[col]);
+    setSlicerValues(col, getNextSelection(current, category, additive), target === 'board' ? boardId : undefined);
+  };
+
+  const handleClearSelection = (boardId: string, widget: WidgetItem) => {
+    const target = getCrossFilterTarget(widget);
+    if (target === 'off') return;
+    setSlicerValues(widget.config.categoryCol, [], target === 'board' ? boardId : undefined);
   };
 
+  // Used for Global Slicers (All datasets)
+  const getGlobalUniqueValues = (col: string) => getValueCounts(datasets, col);
+
   // --- Board Specific Logic ---
+  // Board filter panels always list the columns that currently have an active filter
+  const withActiveFilterColumns = (columns: string[], board: Board) =>
+      _.uniq([...Object.keys(board.filters || {}).filter(col => isSlicerActive(board.filters![col])), ...columns]);
+
   const getBoardSpecificData = (board: Board) => {
       const usedDatasetIds = new Set(board.widgets.map(w => w.datasetId));
       const usedDatasets = datasets.filter(d => usedDatasetIds.has(d.id));
 
       if (usedDatasets.length === 0) {
-          return { columns: [], getValues: () => [] };
+          return { columns: [], getValues: () => [], usedDatasets };
       }
 
-      const datasetColumns = usedDatasets.map(d => d.columns);
-      const columns = _.intersection(...datasetColumns);
-
-      const getValues = (col: string) => {
-          let allValues: string[] = [];
-          usedDatasets.forEach(ds => {
-              if (ds.columns.includes(col)) {
-                  const vals = ds.rows.map(r => String(r[col]));
-                  allValues = allValues.concat(vals);
-              }
-          });
-          return _.uniq(allValues).sort().slice(0, 50);
-      };
+      const columns = getSlicerColumns(usedDatasets);
+
+      const getValues = (col: string) => getValueCounts(usedDatasets, col);
 
-      return { columns, getValues };
+      return { columns, getValues, usedDatasets };
   };
 
   // --- Render ---
@@ -461,13 +961,13 @@ export default function App() {
            >
                 <div className="flex items-center gap-2">
                     <Upload className="w-4 h-4 text-blue-500" />
-                    <span className="text-sm text-gray-700 font-medium group-hover:text-blue-600">导入 Excel</span>
+                    <span className="text-sm text-gray-700 font-medium group-hover:text-blue-600">导入数据 (Excel / CSV / JSON)</span>
                 </div>
                 <input 
                     ref={fileInputRef}
                     type="file" 
                     className="hidden" 
-                    accept=".xlsx, .xls" 
+                    accept={DATA_FILE_ACCEPT}
                     onChange={handleFileChange} 
                 />
            </div>
@@ -475,9 +975,20 @@ export default function App() {
            {/* Dataset List */}
            {datasets.length > 0 && (
                <div className="space-y-2">
-                   <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider px-1">
-                       数据源文件
-                   </p>
+                   <div className="flex items-center justify-between px-1">
+                       <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                           数据源文件
+                       </p>
+                       {datasets.length > 1 && (
+                           <button
+                               onClick={() => setIsMergeOpen(true)}
+                               className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                               title="关联或拼接多个数据源，生成新的数据源"
+                           >
+                               <GitMerge size={12}/> 合并
+                           </button>
+                       )}
+                   </div>
                    <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
                        {datasets.map(ds => (
                            <div 
@@ -493,9 +1004,31 @@ export default function App() {
                                    className="flex-1 min-w-0 flex items-center gap-2 px-3 cursor-pointer"
                                    onClick={() => setActiveDatasetId(ds.id)}
                                >
-                                   <Layers size={14} className={cn("flex-shrink-0", activeDatasetId === ds.id ? "text-blue-500" : "text-gray-400")}/>
+                                   {ds.derivedFrom
+                                       ? <GitMerge size={14} className={cn("flex-shrink-0", activeDatasetId === ds.id ? "text-blue-500" : "text-gray-400")}/>
+                                       : <Layers size={14} className={cn("flex-shrink-0", activeDatasetId === ds.id ? "text-blue-500" : "text-gray-400")}/>}
                                    <span className="truncate" title={ds.name}>{ds.name}</span>
                                </div>
+                               {ds.derivedFrom && (
+                                   <button
+                                      type="button"
+                                      onClick={(e) => handleRebuildDataset(ds.id, e)}
+                                      className="w-7 flex items-center justify-center text-gray-300 hover:text-blue-500 hover:bg-blue-100 transition-colors"
+                                      title="从源数据重新生成"
+                                   >
+                                       <RefreshCw size={13} className="pointer-events-none" />
+                                   </button>
+                               )}
+                               {!ds.derivedFrom && (
+                                   <button
+                                      type="button"
+                                      onClick={(e) => handleReplaceClick(ds.id, e)}
+                                      className="w-7 flex items-center justify-center text-gray-300 hover:text-blue-500 hover:bg-blue-100 transition-colors"
+                                      title="替换数据 (导入新版本文件，保留看板)"
+                                   >
+                                       <FileUp size={13} className="pointer-events-none" />
+                                   </button>
+                               )}
                                <button 
                                   type="button"
                                   onClick={(e) => removeDataset(ds.id, e)}
@@ -519,7 +1052,7 @@ export default function App() {
         <div className="flex-1 overflow-y-auto custom-scrollbar bg-gray-50/30">
             {datasets.length === 0 ? (
                 <div className="text-center text-gray-400 mt-10 text-sm p-4">
-                    请先导入 Excel 数据源<br/>
+                    请先导入 Excel、CSV 或 JSON 数据源<br/>
                     <span className="text-xs mt-2 block">导入后可在右侧创建看板</span>
                 </div>
             ) : (
@@ -545,6 +1078,7 @@ export default function App() {
                                                 <button 
                                                     key={col} 
                                                     onClick={() => handleFieldClick(col, 'numeric')}
+                                                    title={getColumnHint(activeDataset, col)}
                                                     className="text-xs bg-green-50 text-green-700 px-2 py-1 rounded border border-green-100 truncate max-w-full hover:bg-green-100 hover:border-green-300 transition-colors"
                                                 >
                                                     {col}
@@ -563,6 +1097,7 @@ export default function App() {
                                                 <button 
                                                     key={col} 
                                                     onClick={() => handleFieldClick(col, 'date')}
+                                                    title={getColumnHint(activeDataset, col)}
                                                     className="text-xs bg-orange-50 text-orange-700 px-2 py-1 rounded border border-orange-100 truncate max-w-full hover:bg-orange-100 hover:border-orange-300 transition-colors"
                                                 >
                                                     {col}
@@ -581,6 +1116,7 @@ export default function App() {
                                                 <button 
                                                     key={col} 
                                                     onClick={() => handleFieldClick(col, 'text')}
+                                                    title={getColumnHint(activeDataset, col)}
                                                     className="text-xs bg-blue-50 text-blue-700 px-2 py-1 rounded border border-blue-100 truncate max-w-full hover:bg-blue-100 hover:border-blue-300 transition-colors"
                                                 >
                                                     {col}
@@ -599,6 +1135,20 @@ export default function App() {
                          </div>
                     )}
 
+                    {activeDataset && (
+                        <DatasetSchemaPanel 
+                            dataset={activeDataset}
+                            onUpdateColumn={(col, change) => handleUpdateColumn(activeDataset.id, col, change)}
+                        />
+                    )}
+
+                    {activeDataset && (
+                        <CalculatedFieldsPanel
+                            dataset={activeDataset}
+                            onChange={(fields, rename) => handleUpdateCalculatedFields(activeDataset.id, fields, rename)}
+                        />
+                    )}
+
                     {/* SECTION 2: Global Slicers */}
                     <div className="p-4 space-y-4">
                         <div className="flex flex-col gap-1">
@@ -606,14 +1156,14 @@ export default function App() {
                                  <Filter size={16}/> <span>公共切片器 (Global)</span>
                             </div>
                             <p className="text-[10px] text-gray-400 leading-tight">
-                                {commonColumns.length > 0 
-                                     ? "筛选将应用到所有可见的看板图表 (所有数据源的公共字段，含文本/数值/日期)" 
-                                     : "未发现所有文件共有的字段，无法全局切片"}
+                                {slicerColumns.length > 0 
+                                     ? "筛选将应用到所有可见的看板图表 (各数据源的全部字段，含文本/数值/日期；公共字段在前)" 
+                                     : "暂无数据源，无法全局切片"}
                             </p>
                         </div>
-                        {commonColumns.slice(0, 10).map(col => {
-                            const selectedVals = slicers[col] || [];
-                            const selectedCount = selectedVals.length;
+                        {globalSlicerColumns.map(col => {
+                            const slicer = slicers[col];
+                            const isActive = isSlicerActive(slicer);
                             return (
                                 <div key={col} className="bg-white rounded-lg p-3 border border-gray-200 shadow-sm">
                                     <div 
@@ -621,25 +1171,22 @@ export default function App() {
                                         onClick={() => setActiveSlicerCol(activeSlicerCol === col ? null : col)}
                                     >
                                         <span className="text-sm font-medium text-gray-700 truncate w-4/5">{col}</span>
-                                        {selectedCount > 0 && (
-                                            <span className="text-xs text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded font-medium">
-                                                {selectedCount}
+                                        {isActive && (
+                                            <span className="text-xs text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded font-medium truncate max-w-[50%]">
+                                                {describeSlicer(slicer)}
                                             </span>
                                         )}
                                     </div>
-                                    {(activeSlicerCol === col || selectedCount > 0) && (
-                                        <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 mt-2 pl-1 border-t border-gray-100 pt-2">
-                                            {getGlobalUniqueValues(col).map(val => (
-                                                <label key={val} className="flex items-center gap-2 text-sm text-gray-600 hover:text-blue-600 cursor-pointer select-none">
-                                                    <input 
-                                                        type="checkbox" 
-                                                        className="rounded text-blue-500 focus:ring-0 w-3 h-3"
-                                                        checked={selectedVals.includes(val)}
-                                                        onChange={() => toggleSlicerValue(col, val)}
-                                                    />
-                                                    <span className="truncate">{val}</span>
-                                                </label>
-                                            ))}
+                                    {(activeSlicerCol === col || isActive) && (
+                                        <div className="mt-2 border-t border-gray-100 pt-2">
+                                            <SlicerEditor 
+                                                columnType={getSlicerColumnType(datasets, col)}
+                                                slicer={slicer}
+                                                values={getGlobalUniqueValues(col)}
+                                                bounds={getColumnBounds(datasets, col)}
+                                                missingDatasets={getDatasetsMissingColumn(datasets, col)}
+                                                onChange={(next) => updateSlicer(col, next)}
+                                            />
                                         </div>
                                     )}
                                 </div>
@@ -684,9 +1231,53 @@ export default function App() {
             </div>
 
             <div className="flex items-center gap-3">
+                <div className="flex items-center">
+                    <button
+                        onClick={handleUndo}
+                        disabled={history.past.length === 0}
+                        className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                        title="撤销 (Ctrl+Z)"
+                    >
+                        <Undo2 size={18} />
+                    </button>
+                    <button
+                        onClick={handleRedo}
+                        disabled={history.future.length === 0}
+                        className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                        title="重做 (Ctrl+Y)"
+                    >
+                        <Redo2 size={18} />
+                    </button>
+                </div>
+
                 {/* Mode Specific Buttons */}
                 {viewMode === 'list' && (
                     <>
+                        <button 
+                            onClick={() => projectInputRef.current?.click()}
+                            className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium transition-colors"
+                            title="打开 .dashboard 项目文件"
+                        >
+                            <FolderOpen size={16} />
+                            打开项目
+                        </button>
+                        <input 
+                            ref={projectInputRef}
+                            type="file" 
+                            className="hidden" 
+                            accept={`${PROJECT_FILE_EXTENSION},.json`} 
+                            onChange={handleProjectFileChange} 
+                        />
+                        <button 
+                            onClick={() => setIsExportProjectOpen(true)}
+                            disabled={boards.length === 0}
+                            className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="导出所有看板为项目文件"
+                        >
+                            <Download size={16} />
+                            导出项目
+                        </button>
+                        <div className="h-6 w-px bg-gray-200 mx-1"></div>
                         {selectedBoardIds.length > 0 && (
                             <button 
                                 onClick={goToSplitView}
@@ -696,6 +1287,15 @@ export default function App() {
                                 分窗口查看 ({selectedBoardIds.length})
                             </button>
                         )}
+                        <button 
+                            onClick={() => setIsTemplateOpen(true)}
+                            disabled={templates.length === 0 || datasets.length === 0}
+                            className="flex items-center gap-2 px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                            title={templates.length === 0 ? "在看板列表中点击“存为模板”后可用" : "用已保存的模板为某个数据源新建看板"}
+                        >
+                            <LayoutTemplate size={16} />
+                            从模板新建
+                        </button>
                         <button 
                             onClick={handleAddBoard}
                             className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors shadow-sm"
@@ -734,12 +1334,14 @@ export default function App() {
 
                 {viewMode === 'detail' && (
                     <div className="flex items-center gap-2">
+                        {activeBoard && renderClipboardBar(activeBoard)}
+
                         {/* Detail View Board Filter Toggle */}
                         <button 
                             onClick={() => setIsDetailFilterOpen(!isDetailFilterOpen)}
                             className={cn(
                                 "p-2 rounded-lg transition-colors border flex items-center gap-2 text-sm font-medium",
-                                isDetailFilterOpen || (activeBoard?.filters && Object.values(activeBoard.filters).some(v => v.length > 0))
+                                isDetailFilterOpen || (activeBoard?.filters && Object.values(activeBoard.filters).some(isSlicerActive))
                                     ? "bg-blue-50 border-blue-200 text-blue-600" 
                                     : "bg-white border-gray-200 text-gray-500 hover:bg-gray-50"
                             )}
@@ -748,6 +1350,15 @@ export default function App() {
                             <Filter size={16} />
                             {isSidebarOpen ? "看板筛选 (Local)" : ""}
                         </button>
+
+                        {activeBoard && (
+                            <BoardExportMenu
+                                boardName={activeBoard.name}
+                                filterLines={describeActiveFilters(slicers, activeBoard.filters)}
+                                getElement={() => getBoardExportElement(activeBoard.id)}
+                                onExportData={() => handleExportBoardData(activeBoard)}
+                            />
+                        )}
                         
                         <div className="h-6 w-px bg-gray-200 mx-1"></div>
 
@@ -848,6 +1459,20 @@ export default function App() {
                                             进入看板
                                         </button>
                                         <div className="h-6 w-px bg-gray-200 mx-1"></div>
+                                        <button 
+                                            onClick={(e) => handleDuplicateBoard(board, e)}
+                                            className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                            title="复制看板"
+                                        >
+                                            <Copy size={18} />
+                                        </button>
+                                        <button 
+                                            onClick={(e) => handleSaveAsTemplate(board, e)}
+                                            className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                            title="存为模板"
+                                        >
+                                            <BookmarkPlus size={18} />
+                                        </button>
                                         <button 
                                             onClick={(e) => handleDeleteBoard(board.id, e)}
                                             className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
@@ -873,35 +1498,33 @@ export default function App() {
                                 <div className="flex items-center gap-2">
                                     <Filter size={16} className="text-blue-600"/>
                                     <h3 className="text-sm font-bold text-gray-700">【{activeBoard.name}】看板独立筛选</h3>
-                                    <span className="text-xs text-gray-400 ml-2">仅显示该看板所用数据源的公共字段 (含数值/日期)</span>
+                                    <span className="text-xs text-gray-400 ml-2">该看板所用数据源的全部字段 (含数值/日期)，公共字段在前</span>
                                 </div>
                                 <button onClick={() => setIsDetailFilterOpen(false)} className="hover:bg-gray-100 p-1 rounded-full"><X size={18} className="text-gray-500"/></button>
                              </div>
                              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
                                 {/* Use board specific logic here */}
                                 {(() => {
-                                    const { columns, getValues } = getBoardSpecificData(activeBoard);
-                                    if (columns.length === 0) return <div className="col-span-full text-xs text-gray-400">该看板暂无数据源或无公共字段</div>
-                                    return columns.slice(0, 12).map(col => {
-                                        const selectedVals = activeBoard.filters?.[col] || [];
+                                    const { columns, getValues, usedDatasets } = getBoardSpecificData(activeBoard);
+                                    if (columns.length === 0) return <div className="col-span-full text-xs text-gray-400">该看板暂无数据源</div>
+                                    return withActiveFilterColumns(columns.slice(0, 12), activeBoard).map(col => {
+                                        const slicer = activeBoard.filters?.[col];
                                         return (
                                             <div key={col} className="space-y-1">
-                                                <div className="text-xs font-semibold text-gray-600 flex justify-between">
-                                                    <span>{col}</span>
-                                                    {selectedVals.length > 0 && <span className="text-blue-500">{selectedVals.length}</span>}
+                                                <div className="text-xs font-semibold text-gray-600 flex justify-between gap-1">
+                                                    <span className="truncate">{col}</span>
+                                                    {isSlicerActive(slicer) && <span className="text-blue-500 truncate">{describeSlicer(slicer!)}</span>}
                                                 </div>
-                                                <div className="bg-gray-50 rounded p-1.5 max-h-32 overflow-y-auto custom-scrollbar border border-gray-200">
-                                                    {getValues(col).map(val => (
-                                                         <label key={val} className="flex items-center gap-2 px-1 py-0.5 hover:bg-gray-200 cursor-pointer rounded select-none">
-                                                            <input 
-                                                                type="checkbox" 
-                                                                className="rounded text-blue-500 w-3 h-3 focus:ring-0"
-                                                                checked={selectedVals.includes(val)}
-                                                                onChange={() => toggleSlicerValue(col, val, activeBoard.id)}
-                                                            />
-                                                            <span className="text-xs text-gray-700 truncate" title={val}>{val}</span>
-                                                         </label>
-                                                    ))}
+                                                <div className="bg-gray-50 rounded p-1.5 border border-gray-200">
+                                                    <SlicerEditor 
+                                                        columnType={getSlicerColumnType(usedDatasets, col)}
+                                                        slicer={slicer}
+                                                        values={getValues(col)}
+                                                        bounds={getColumnBounds(usedDatasets, col)}
+                                                        listHeight={110}
+                                                        missingDatasets={getDatasetsMissingColumn(usedDatasets, col)}
+                                                        onChange={(next) => updateSlicer(col, next, activeBoard.id)}
+                                                    />
                                                 </div>
                                             </div>
                                         )
@@ -912,6 +1535,7 @@ export default function App() {
                     )}
 
                     <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+                      <div data-board-export={activeBoard.id}>
                         <BoardGrid 
                             board={activeBoard}
                             datasets={datasets}
@@ -921,7 +1545,13 @@ export default function App() {
                             onLayoutChange={(newLayout) => handleLayoutChange(activeBoard.id, newLayout)}
                             onRemoveWidget={(id) => handleRemoveWidget(activeBoard.id, id)}
                             onEditWidget={(widget) => handleEditWidget(activeBoard.id, widget)}
+                            onRebindWidget={handleRebindWidget}
+                            onSelectCategory={(widget, category, additive) => handleSelectCategory(activeBoard.id, widget, category, additive)}
+                            onClearSelection={(widget) => handleClearSelection(activeBoard.id, widget)}
+                            selectedWidgetIds={getSelectedIds(activeBoard)}
+                            onToggleWidgetSelection={(widgetId) => handleToggleWidgetSelection(activeBoard.id, widgetId)}
                         />
+                      </div>
                     </div>
                 </div>
             )}
@@ -936,7 +1566,7 @@ export default function App() {
                 )}>
                     {splitBoards.map(board => {
                         const isFilterOpen = openFilterBoardId === board.id;
-                        const hasActiveFilters = board.filters && Object.keys(board.filters).some(k => board.filters![k].length > 0);
+                        const hasActiveFilters = board.filters && Object.values(board.filters).some(isSlicerActive);
 
                         return (
                             <div 
@@ -957,6 +1587,7 @@ export default function App() {
                                         )}
                                     </div>
                                     <div className="flex items-center gap-2">
+                                        {renderClipboardBar(board, true)}
                                         <button 
                                             onClick={() => setOpenFilterBoardId(isFilterOpen ? null : board.id)}
                                             className={cn("p-1.5 rounded text-gray-500 hover:bg-gray-200 transition-colors", (isFilterOpen || hasActiveFilters) && "text-blue-600 bg-blue-50")}
@@ -964,6 +1595,13 @@ export default function App() {
                                         >
                                             <Filter size={16}/>
                                         </button>
+                                        <BoardExportMenu
+                                            compact
+                                            boardName={board.name}
+                                            filterLines={describeActiveFilters(slicers, board.filters)}
+                                            getElement={() => getBoardExportElement(board.id)}
+                                            onExportData={() => handleExportBoardData(board)}
+                                        />
                                         <button onClick={() => goToDetailView(board.id)} className="p-1.5 hover:bg-gray-200 rounded text-gray-500" title="全屏查看">
                                             <Maximize2 size={16}/>
                                         </button>
@@ -972,7 +1610,7 @@ export default function App() {
                                 
                                 {/* Local Board Filter Panel (Collapsible) */}
                                 {isFilterOpen && (
-                                    <div className="bg-white border-b border-gray-100 p-3 shadow-inner max-h-48 overflow-y-auto custom-scrollbar z-20">
+                                    <div className="bg-white border-b border-gray-100 p-3 shadow-inner max-h-72 overflow-y-auto custom-scrollbar z-20">
                                         <div className="flex justify-between items-center mb-2">
                                             <span className="text-xs font-semibold text-gray-500">本看板独立筛选</span>
                                             <button onClick={() => setOpenFilterBoardId(null)}><ChevronUp size={14} className="text-gray-400"/></button>
@@ -980,33 +1618,23 @@ export default function App() {
                                         <div className="grid grid-cols-2 gap-3">
                                             {/* Show board specific columns */}
                                             {(() => {
-                                                const { columns, getValues } = getBoardSpecificData(board);
-                                                if (columns.length === 0) return <div className="col-span-full text-xs text-gray-400">无公共字段</div>
+                                                const { columns, getValues, usedDatasets } = getBoardSpecificData(board);
+                                                if (columns.length === 0) return <div className="col-span-full text-xs text-gray-400">无可用字段</div>
                                                 
-                                                return columns.slice(0, 6).map(col => {
-                                                    const selectedVals = board.filters?.[col] || [];
-                                                    return (
-                                                        <div key={col} className="text-xs">
-                                                            <div className="font-medium text-gray-700 mb-1">{col}</div>
-                                                            <div className="flex flex-wrap gap-1">
-                                                                {getValues(col).map(val => (
-                                                                    <button
-                                                                        key={val}
-                                                                        onClick={() => toggleSlicerValue(col, val, board.id)}
-                                                                        className={cn(
-                                                                            "px-2 py-0.5 rounded border transition-colors truncate max-w-full",
-                                                                            selectedVals.includes(val) 
-                                                                                ? "bg-blue-100 border-blue-200 text-blue-700" 
-                                                                                : "bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100"
-                                                                        )}
-                                                                    >
-                                                                        {val}
-                                                                    </button>
-                                                                ))}
-                                                            </div>
-                                                        </div>
-                                                    );
-                                                });
+                                                return withActiveFilterColumns(columns.slice(0, 6), board).map(col => (
+                                                    <div key={col} className="text-xs">
+                                                        <div className="font-medium text-gray-700 mb-1">{col}</div>
+                                                        <SlicerEditor 
+                                                            columnType={getSlicerColumnType(usedDatasets, col)}
+                                                            slicer={board.filters?.[col]}
+                                                            values={getValues(col)}
+                                                            bounds={getColumnBounds(usedDatasets, col)}
+                                                            listHeight={90}
+                                                            missingDatasets={getDatasetsMissingColumn(usedDatasets, col)}
+                                                            onChange={(next) => updateSlicer(col, next, board.id)}
+                                                        />
+                                                    </div>
+                                                ));
                                             })()}
                                         </div>
                                     </div>
@@ -1014,7 +1642,7 @@ export default function App() {
 
                                 {/* Board Content */}
                                 <div className="flex-1 overflow-y-auto custom-scrollbar p-2 bg-slate-50 relative">
-                                    <div className="h-full w-full">
+                                    <div className="h-full w-full" data-board-export={board.id}>
                                         <BoardGrid 
                                             board={board}
                                             datasets={datasets}
@@ -1024,6 +1652,11 @@ export default function App() {
                                             onLayoutChange={(newLayout) => handleLayoutChange(board.id, newLayout)}
                                             onRemoveWidget={(id) => handleRemoveWidget(board.id, id)}
                                             onEditWidget={(widget) => handleEditWidget(board.id, widget)}
+                                            onRebindWidget={handleRebindWidget}
+                                            onSelectCategory={(widget, category, additive) => handleSelectCategory(board.id, widget, category, additive)}
+                                            onClearSelection={(widget) => handleClearSelection(board.id, widget)}
+                                            selectedWidgetIds={getSelectedIds(board)}
+                                            onToggleWidgetSelection={(widgetId) => handleToggleWidgetSelection(board.id, widgetId)}
                                         />
                                     </div>
                                 </div>
@@ -1049,11 +1682,59 @@ export default function App() {
             columns={{
                 numeric: activeDataset.numericColumns,
                 text: activeDataset.textColumns,
-                date: activeDataset.dateColumns
+                date: activeDataset.dateColumns,
+                all: activeDataset.columns
             }}
           />
       )}
 
+      <ImportModal 
+        isOpen={!!pendingImport}
+        fileName={pendingImport?.fileName || ''}
+        sheets={pendingImport?.sheets || []}
+        onClose={() => setPendingImport(null)}
+        onImport={handleImportSheets}
+        replacing={datasets.find(d => d.id === pendingImport?.replaceId)?.name}
+        initialOptions={datasets.find(d => d.id === pendingImport?.replaceId)?.importOptions}
+        textOptions={pendingImport?.textOptions}
+        onChangeTextOptions={handleChangeTextOptions}
+      />
+
+      <MergeDatasetsModal
+        isOpen={isMergeOpen}
+        datasets={datasets}
+        onClose={() => setIsMergeOpen(false)}
+        onMerge={handleMergeDatasets}
+      />
+
+      <BoardTemplateModal
+        isOpen={isTemplateOpen}
+        templates={templates}
+        datasets={datasets}
+        defaultDatasetId={activeDatasetId}
+        onClose={() => setIsTemplateOpen(false)}
+        onApply={handleApplyTemplate}
+        onDeleteTemplate={handleDeleteTemplate}
+      />
+
+      <ExportProjectModal 
+        isOpen={isExportProjectOpen}
+        onClose={() => setIsExportProjectOpen(false)}
+        onExport={handleExportProject}
+        boardCount={boards.length}
+        datasetCount={projectDatasetCount}
+      />
+
+      {/* Workspace Restore Overlay */}
+      {!isWorkspaceLoaded && (
+          <div className="fixed inset-0 bg-white/70 z-50 flex items-center justify-center">
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Database size={16} className="text-blue-500 animate-pulse" />
+                  正在恢复上次的工作区...
+              </div>
+          </div>
+      )}
+
       {/* Confirmation Modal */}
       {confirmState.isOpen && (
           <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center animate-in fade-in duration-200">
@@ -1071,7 +1752,7 @@ export default function App() {
                           onClick={handleConfirmAction}
                           className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg shadow-sm transition-colors"
                       >
-                          确定删除
+                          {confirmState.confirmLabel || "确定删除"}
                       </button>
                   </div>
               </div>
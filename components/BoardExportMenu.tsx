@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { PaperSize } from '../lib/pdf';
+import { exportBoardPng, exportBoardPdf, ExportHeader } from '../lib/exportImage';
+import { cn, downloadBlob } from '../lib/utils';
+
+interface BoardExportMenuProps {
+  boardName: string;
+  filterLines: string[];
+  getElement: () => HTMLElement | null;
+  compact?: boolean; // Icon-only button, for the split view headers
+  onExportData?: () => void; // Widget data as an Excel workbook
+}
+
+type ExportFormat = { kind: 'png' } | { kind: 'pdf'; paper: PaperSize; landscape: boolean };
+
+const FORMATS: { label: string; format: ExportFormat }[] = [
+  { label: 'PNG 图片', format: { kind: 'png' } },
+  { label: 'PDF · A4 横向', format: { kind: 'pdf', paper: 'A4', landscape: true } },
+  { label: 'PDF · A4 纵向', format: { kind: 'pdf', paper: 'A4', landscape: false } },
+  { label: 'PDF · A3 横向', format: { kind: 'pdf', paper: 'A3', landscape: true } }
+];
+
+export default function BoardExportMenu({ boardName, filterLines, getElement, compact, onExportData }: BoardExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    const el = getElement();
+    if (!el) return;
+    const header: ExportHeader = {
+      title: boardName,
+      lines: [`导出时间：${new Date().toLocaleString()}`, ...(filterLines.length > 0 ? filterLines : ['筛选：无'])]
+    };
+    setIsBusy(true);
+    try {
+      const blob = format.kind === 'png'
+        ? await exportBoardPng(el, header)
+        : await exportBoardPdf(el, header, format.paper, format.landscape);
+      downloadBlob(blob, `${boardName}.${format.kind}`);
+    } catch (err) {
+      alert("导出失败：" + (err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isBusy}
+        className={cn(
+          compact
+            ? "p-1.5 rounded text-gray-500 hover:bg-gray-200 transition-colors"
+            : "p-2 rounded-lg transition-colors border flex items-center gap-2 text-sm font-medium bg-white border-gray-200 text-gray-500 hover:bg-gray-50",
+          isOpen && "text-blue-600 bg-blue-50"
+        )}
+        title="导出看板 (PNG / PDF / Excel)"
+      >
+        {isBusy ? <Loader2 size={16} className="animate-spin"/> : <Download size={16}/>}
+        {!compact && "导出"}
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)}/>
+          <div className="absolute right-0 top-full mt-1 w-40 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-40 animate-in fade-in">
+            {FORMATS.map(({ label, format }) => (
+              <button
+                key={label}
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {label}
+              </button>
+            ))}
+            {onExportData && (
+              <>
+                <div className="my-1 border-t border-gray-100"/>
+                <button
+                  onClick={() => { setIsOpen(false); onExportData(); }}
+                  className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  Excel 数据 (.xlsx)
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
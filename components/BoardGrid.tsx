@@ -1,9 +1,16 @@
 import React, { useMemo } from 'react';
 import * as RGLRaw from 'react-grid-layout';
-import { Trash2 } from 'lucide-react';
-import { Dataset, aggregateData } from '../lib/data';
+import { Trash2, FilterX, Square, CheckSquare } from 'lucide-react';
+import { Dataset, aggregateData, getAggregateOptions, OTHERS_KEY } from '../lib/data';
+import { Layout, WidgetItem, Board, SlicerState, getWidgetColumns, getCrossFilterTarget, getWidgetSlicerSets, GRID_COLS } from '../lib/board';
+import { filterRows, getSlicerValues, getUnappliedSlicers } from '../lib/filters';
 import ChartWidget from './ChartWidget';
 import TimelineWidget from './TimelineWidget';
+import KpiWidget from './KpiWidget';
+import TableWidget from './TableWidget';
+import { computeKpi } from '../lib/kpi';
+import { exportWidgetData } from '../lib/exportData';
+import { cn, downloadBlob } from '../lib/utils';
 
 // Fix for React Grid Layout Imports
 const RGL: any = RGLRaw;
@@ -11,41 +18,20 @@ const WidthProvider = RGL.WidthProvider || RGL.default?.WidthProvider;
 const GridLayout = RGL.default || RGL;
 const ReactGridLayout = WidthProvider ? WidthProvider(GridLayout) : GridLayout;
 
-interface Layout {
-  i: string;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  minW?: number;
-  minH?: number;
-}
-
-interface WidgetItem {
-  i: string;
-  datasetId: string;
-  type: 'bar' | 'line' | 'pie' | 'timeline' | 'radar';
-  title: string;
-  config: any;
-}
-
-interface Board {
-  id: string;
-  name: string;
-  layout: Layout[];
-  widgets: WidgetItem[];
-  filters?: { [key: string]: string[] }; // Add filters definition
-}
-
 interface BoardGridProps {
   board: Board;
   datasets: Dataset[];
-  slicers: { [key: string]: string[] }; // Global slicers
-  boardFilters?: { [key: string]: string[] }; // Local board filters
+  slicers: SlicerState; // Global slicers
+  boardFilters?: SlicerState; // Local board filters
   isReadOnly?: boolean;
   onLayoutChange?: (layout: Layout[]) => void;
   onRemoveWidget?: (id: string) => void;
   onEditWidget?: (widget: WidgetItem) => void;
+  onRebindWidget?: (widget: WidgetItem, datasetId: string) => void;
+  onSelectCategory?: (widget: WidgetItem, category: string, additive: boolean) => void;
+  onClearSelection?: (widget: WidgetItem) => void;
+  selectedWidgetIds?: string[]; // Picked for copy / cut / move
+  onToggleWidgetSelection?: (widgetId: string) => void;
 }
 
 const BoardGrid: React.FC<BoardGridProps> = ({ 
@@ -56,36 +42,20 @@ const BoardGrid: React.FC<BoardGridProps> = ({
   isReadOnly = false, 
   onLayoutChange, 
   onRemoveWidget, 
-  onEditWidget 
+  onEditWidget,
+  onRebindWidget,
+  onSelectCategory,
+  onClearSelection,
+  selectedWidgetIds = [],
+  onToggleWidgetSelection
 }) => {
 
-  // Helper to filter rows based on global slicers AND board filters
-  const getFilteredRows = (datasetId: string) => {
-    const ds = datasets.find(d => d.id === datasetId);
-    if (!ds) return [];
-
-    return ds.rows.filter(row => {
-        // 1. Check Global Slicers
-        const passesGlobal = Object.entries(slicers).every(([col, selectedVals]) => {
-            if (!selectedVals || selectedVals.length === 0) return true;
-            if (row[col] === undefined) return true;
-            return selectedVals.includes(String(row[col]));
-        });
-
-        if (!passesGlobal) return false;
-
-        // 2. Check Local Board Filters
-        if (boardFilters) {
-            const passesLocal = Object.entries(boardFilters).every(([col, selectedVals]) => {
-                if (!selectedVals || selectedVals.length === 0) return true;
-                if (row[col] === undefined) return true;
-                return selectedVals.includes(String(row[col]));
-            });
-            if (!passesLocal) return false;
-        }
-
-        return true;
-    });
+  const handleExportData = (widget: WidgetItem) => {
+    try {
+      downloadBlob(exportWidgetData(board, widget, datasets, slicers), `${widget.title || board.name}.xlsx`);
+    } catch (err) {
+      alert("导出失败：" + (err as Error).message);
+    }
   };
 
   if (board.widgets.length === 0) {
@@ -101,7 +71,7 @@ const BoardGrid: React.FC<BoardGridProps> = ({
     <ReactGridLayout
         className="layout"
         layout={board.layout}
-        cols={12}
+        cols={GRID_COLS}
         rowHeight={60}
         width={1200} // WidthProvider will override this
         isDraggable={!isReadOnly}
@@ -113,10 +83,25 @@ const BoardGrid: React.FC<BoardGridProps> = ({
             const widgetDataset = datasets.find(d => d.id === w.datasetId);
             
             if (!widgetDataset) {
+                    // Datasets that still have every column this widget uses can take its place
+                    const requiredCols = getWidgetColumns(w);
+                    const candidates = datasets.filter(d => requiredCols.every(col => d.columns.includes(col)));
                     return (
-                        <div key={w.i} className="bg-gray-50 border border-gray-200 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-400">
+                        <div key={w.i} className="bg-gray-50 border border-gray-200 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-400 p-2">
                             <Trash2 size={24} className="mb-2"/>
                             <span className="text-xs">数据源已删除</span>
+                            <span className="text-[10px] truncate max-w-full" title={w.title}>{w.title}</span>
+                            {!isReadOnly && onRebindWidget && candidates.length > 0 && (
+                                <select
+                                    value=""
+                                    onChange={(e) => e.target.value && onRebindWidget(w, e.target.value)}
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    className="mt-2 text-xs border border-gray-300 rounded px-1 py-0.5 text-gray-600 bg-white max-w-full"
+                                >
+                                    <option value="">重新绑定数据源...</option>
+                                    {candidates.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                                </select>
+                            )}
                             {!isReadOnly && onRemoveWidget && (
                                 <button onClick={() => onRemoveWidget(w.i)} className="text-xs text-red-400 mt-2 hover:underline">移除组件</button>
                             )}
@@ -124,7 +109,17 @@ const BoardGrid: React.FC<BoardGridProps> = ({
                     );
             }
 
-            const currentFilteredRows = getFilteredRows(w.datasetId);
+            const crossFilter = getCrossFilterTarget(w);
+            const canSelect = crossFilter !== 'off' && !!onSelectCategory;
+            const selectedCategories = canSelect
+                ? getSlicerValues((crossFilter === 'global' ? slicers : boardFilters)?.[w.config.categoryCol])
+                : [];
+            const slicerSets = getWidgetSlicerSets(w, slicers, boardFilters, canSelect);
+            const currentFilteredRows = filterRows(widgetDataset, slicerSets);
+            // Slicers on columns this widget's dataset lacks, surfaced so they don't fail silently
+            const unapplied = getUnappliedSlicers(widgetDataset, slicerSets);
+            const ignored = unapplied.filter(u => u.mode === 'ignore').map(u => u.column);
+            const excluding = unapplied.filter(u => u.mode === 'exclude').map(u => u.column);
 
             let content = null;
             if (w.type === 'timeline') {
@@ -134,30 +129,89 @@ const BoardGrid: React.FC<BoardGridProps> = ({
                         config={w.config}
                         title={w.title}
                         onRemove={!isReadOnly && onRemoveWidget ? () => onRemoveWidget(w.i) : undefined}
+                        onExportData={() => handleExportData(w)}
                     />
                     );
-            } else {
-                const chartData = aggregateData(
-                    currentFilteredRows, 
-                    w.config.categoryCol, 
-                    w.config.valueCol, 
-                    'sum'
+            } else if (w.type === 'kpi') {
+                content = (
+                    <KpiWidget 
+                        result={computeKpi(currentFilteredRows, w.config)}
+                        title={w.title}
+                        config={w.config}
+                        onRemove={!isReadOnly && onRemoveWidget ? () => onRemoveWidget(w.i) : undefined}
+                        onExportData={() => handleExportData(w)}
+                        onEdit={!isReadOnly && onEditWidget ? () => onEditWidget(w) : undefined}
+                    />
                 );
+            } else if (w.type === 'table') {
+                content = (
+                    <TableWidget 
+                        data={currentFilteredRows}
+                        title={w.title}
+                        columns={widgetDataset.columns}
+                        numericColumns={widgetDataset.numericColumns}
+                        config={w.config}
+                        onRemove={!isReadOnly && onRemoveWidget ? () => onRemoveWidget(w.i) : undefined}
+                        onExportData={() => handleExportData(w)}
+                        onEdit={!isReadOnly && onEditWidget ? () => onEditWidget(w) : undefined}
+                    />
+                );
+            } else {
+                const chartData = aggregateData(currentFilteredRows, getAggregateOptions(w.config));
                 content = (
                     <ChartWidget 
-                        data={chartData}
+                        data={chartData.rows}
+                        series={chartData.series}
                         type={w.type}
                         title={w.title}
                         config={w.config}
+                        selectedCategories={selectedCategories}
+                        onSelectCategory={canSelect
+                            ? (category, additive) => category !== OTHERS_KEY && onSelectCategory!(w, category, additive)
+                            : undefined}
+                        onClearSelection={canSelect && onClearSelection ? () => onClearSelection(w) : undefined}
                         onRemove={!isReadOnly && onRemoveWidget ? () => onRemoveWidget(w.i) : undefined}
+                        onExportData={() => handleExportData(w)}
                         onEdit={!isReadOnly && onEditWidget ? () => onEditWidget(w) : undefined}
                     />
                 );
             }
 
+            const isPicked = selectedWidgetIds.includes(w.i);
             return (
-                <div key={w.i} className="bg-transparent">
+                <div key={w.i} className={cn("bg-transparent group/item rounded-lg", isPicked && "ring-2 ring-blue-400")}>
                     {content}
+                    {!isReadOnly && onToggleWidgetSelection && (
+                        <button
+                            data-export-ignore
+                            onClick={(e) => { e.stopPropagation(); onToggleWidgetSelection(w.i); }}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            className={cn(
+                                "absolute bottom-1 left-1 p-0.5 rounded bg-white/90 shadow-sm transition-opacity",
+                                isPicked ? "opacity-100 text-blue-600" : "opacity-0 group-hover/item:opacity-100 text-gray-400 hover:text-blue-600"
+                            )}
+                            title={isPicked ? "取消选择" : "选择组件 (复制 / 剪切 / 移动)"}
+                        >
+                            {isPicked ? <CheckSquare size={14}/> : <Square size={14}/>}
+                        </button>
+                    )}
+                    {unapplied.length > 0 && (
+                        <div 
+                            className={cn(
+                                "absolute top-8 right-1 flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] pointer-events-auto max-w-[80%]",
+                                excluding.length > 0 ? "bg-red-50 text-red-600" : "bg-amber-50 text-amber-700"
+                            )}
+                            title={[
+                                ignored.length > 0 ? `数据源缺少字段，未应用切片器：${ignored.join('、')}` : '',
+                                excluding.length > 0 ? `数据源缺少字段，已按切片器设置排除全部数据：${excluding.join('、')}` : ''
+                            ].filter(Boolean).join('\n')}
+                        >
+                            <FilterX size={10} className="flex-shrink-0"/>
+                            <span className="truncate">
+                                {excluding.length > 0 ? `已排除 · ${excluding.join('、')}` : `未应用 · ${ignored.join('、')}`}
+                            </span>
+                        </div>
+                    )}
                 </div>
             );
         })}
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LayoutTemplate, X, Trash2, AlertTriangle, Check } from 'lucide-react';
+import { Dataset, COLUMN_TYPE_LABELS } from '../lib/data';
+import {
+  BoardTemplate, TemplateMapping, COLUMN_ROLE_LABELS,
+  matchTemplateColumns, getUnmappedColumns, getCandidateColumns
+} from '../lib/template';
+import { cn } from '../lib/utils';
+
+interface BoardTemplateModalProps {
+  isOpen: boolean;
+  templates: BoardTemplate[];
+  datasets: Dataset[];
+  defaultDatasetId: string | null;
+  onClose: () => void;
+  onApply: (template: BoardTemplate, datasetId: string, mapping: TemplateMapping, name: string) => void;
+  onDeleteTemplate: (id: string) => void;
+}
+
+const selectClass = "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function BoardTemplateModal({ isOpen, templates, datasets, defaultDatasetId, onClose, onApply, onDeleteTemplate }: BoardTemplateModalProps) {
+  const [templateId, setTemplateId] = useState('');
+  const [datasetId, setDatasetId] = useState('');
+  const [mapping, setMapping] = useState<TemplateMapping>({});
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+        setTemplateId(templates[templates.length - 1]?.id || '');
+        setDatasetId(defaultDatasetId || datasets[datasets.length - 1]?.id || '');
+        setName('');
+    }
+  }, [isOpen]);
+
+  // The picked template was deleted: fall back to the newest one
+  useEffect(() => {
+    if (isOpen && !templates.some(t => t.id === templateId)) setTemplateId(templates[templates.length - 1]?.id || '');
+  }, [templates]);
+
+  const template = templates.find(t => t.id === templateId);
+  const dataset = datasets.find(d => d.id === datasetId);
+
+  // Columns are matched by name again whenever the template or dataset changes
+  useEffect(() => {
+    setMapping(template && dataset ? matchTemplateColumns(template, dataset) : {});
+  }, [templateId, datasetId]);
+
+  const unmapped = useMemo(() => template ? getUnmappedColumns(template, mapping) : [], [template, mapping]);
+
+  if (!isOpen) return null;
+
+  const defaultName = template && dataset ? `${template.name} · ${dataset.name}` : '';
+
+  const handleSubmit = () => {
+    if (!template || !dataset) return;
+    if (unmapped.length > 0) return alert("请为以下字段选择对应的数据列：" + unmapped.join('、'));
+    onApply(template, dataset.id, mapping, name.trim() || defaultName);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <h2 className="text-xl font-bold text-gray-800">从模板新建看板</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20}/></button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto custom-scrollbar flex-1 min-h-0 pr-1">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">模板</label>
+            <div className="border border-gray-200 rounded-lg max-h-40 overflow-y-auto custom-scrollbar p-1 space-y-0.5">
+              {templates.map(t => (
+                <div
+                  key={t.id}
+                  onClick={() => setTemplateId(t.id)}
+                  className={cn(
+                    "group flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer select-none text-sm",
+                    t.id === templateId ? "bg-blue-50 text-blue-700" : "hover:bg-gray-50 text-gray-700"
+                  )}
+                >
+                  <LayoutTemplate size={14} className="flex-shrink-0"/>
+                  <span className="truncate flex-1" title={t.name}>{t.name}</span>
+                  <span className="text-[10px] text-gray-400">{t.widgets.length} 个组件</span>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDeleteTemplate(t.id); }}
+                    className="p-0.5 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="删除模板"
+                  >
+                    <Trash2 size={12}/>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">数据源</label>
+            <select value={datasetId} onChange={(e) => setDatasetId(e.target.value)} className={selectClass}>
+              {datasets.map(ds => <option key={ds.id} value={ds.id}>{ds.name}</option>)}
+            </select>
+          </div>
+
+          {template && dataset && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">字段对应</label>
+              {unmapped.length > 0 && (
+                <p className="flex items-start gap-1 text-xs text-amber-600 mb-1.5">
+                  <AlertTriangle size={12} className="flex-shrink-0 mt-0.5"/>
+                  <span>{unmapped.length} 个字段在数据源中找不到同名列，请手动选择</span>
+                </p>
+              )}
+              <div className="space-y-1.5">
+                {template.columns.map(col => (
+                  <div key={col.name} className="grid grid-cols-2 gap-2 items-center">
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-700 truncate" title={col.name}>{col.name}</div>
+                      <div className="text-[10px] text-gray-400 truncate">
+                        {COLUMN_TYPE_LABELS[col.type]} · {Array.from(new Set(col.roles.map(r => COLUMN_ROLE_LABELS[r] || r))).join('、')}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <select
+                        value={mapping[col.name] || ''}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [col.name]: e.target.value }))}
+                        className={cn(selectClass, !mapping[col.name] && "border-amber-400 bg-amber-50")}
+                      >
+                        <option value="">请选择...</option>
+                        {getCandidateColumns(dataset, col.type).map(c => (
+                          <option key={c} value={c}>{c} ({COLUMN_TYPE_LABELS[dataset.columnStats[c].type]})</option>
+                        ))}
+                      </select>
+                      {mapping[col.name] && <Check size={14} className="text-green-500 flex-shrink-0"/>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">看板名称</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={defaultName}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-shadow"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={!template || !dataset || unmapped.length > 0}
+          className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-semibold rounded-lg shadow transition-colors mt-4 active:scale-[0.99] transform flex items-center justify-center gap-2 flex-shrink-0"
+        >
+          <LayoutTemplate size={16} /> 创建看板
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState, useMemo } from 'react';
+import { Calculator, Plus, Pencil, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Dataset, CalculatedField, COLUMN_TYPE_LABELS } from '../lib/data';
+import { validateCalculatedField } from '../lib/schema';
+import { compileExpression, renameExpressionColumn, EXPRESSION_FUNCTIONS } from '../lib/expression';
+import { cn } from '../lib/utils';
+
+const PREVIEW_ROWS = 3;
+
+interface CalculatedFieldsPanelProps {
+  dataset: Dataset;
+  // `rename` is set when an existing field changed its name, so references can follow
+  onChange: (fields: CalculatedField[], rename?: { from: string; to: string }) => boolean;
+}
+
+// Name + expression form with live validation and a preview on the first rows
+const FieldEditor: React.FC<{
+  dataset: Dataset;
+  fields: CalculatedField[];
+  index: number;
+  onSave: (field: CalculatedField) => void;
+  onCancel: () => void;
+}> = ({ dataset, fields, index, onSave, onCancel }) => {
+  const [name, setName] = useState(fields[index]?.name || '');
+  const [expression, setExpression] = useState(fields[index]?.expression || '');
+
+  const draft = { name, expression };
+  const draftFields = index < fields.length ? fields.map((f, i) => i === index ? draft : f) : [...fields, draft];
+  const error = expression.trim() ? validateCalculatedField(dataset, draftFields, index) : null;
+
+  const preview = useMemo(() => {
+    if (error || !expression.trim()) return [];
+    const compiled = compileExpression(expression);
+    return dataset.rows.slice(0, PREVIEW_ROWS).map(row => compiled.evaluate(row));
+  }, [dataset, expression, error]);
+
+  const inputClass = "w-full text-xs border border-gray-200 rounded px-1.5 py-1 bg-white outline-none focus:border-blue-300";
+
+  return (
+    <div className="rounded border border-blue-200 bg-blue-50/40 p-2 space-y-1.5">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="字段名" className={inputClass} autoFocus />
+      <textarea
+        value={expression}
+        onChange={(e) => setExpression(e.target.value)}
+        placeholder='例如 [销售额] - [成本]'
+        rows={3}
+        className={cn(inputClass, "font-mono resize-y")}
+        spellCheck={false}
+      />
+      {error ? (
+        <div className="text-[10px] text-red-500 break-all">{error}</div>
+      ) : preview.length > 0 && (
+        <div className="text-[10px] text-gray-500 truncate" title="前几行的计算结果">
+          预览：{preview.map(v => v === null ? '(空)' : String(v)).join(' , ')}
+        </div>
+      )}
+      <div className="flex justify-end gap-1">
+        <button onClick={onCancel} className="px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100 rounded">取消</button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!name.trim() || !expression.trim() || !!error}
+          className="px-2 py-0.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default function CalculatedFieldsPanel({ dataset, onChange }: CalculatedFieldsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Index of the field being edited; fields.length means a new one
+  const [editing, setEditing] = useState<number | null>(null);
+  const fields = dataset.calculatedFields || [];
+
+  const save = (index: number, field: CalculatedField) => {
+    const previousName = fields[index]?.name;
+    const name = field.name.trim();
+    const renamed = previousName !== undefined && previousName !== name;
+    const next = index < fields.length
+      ? fields.map((f, i) => i === index ? field : renamed ? { ...f, expression: renameExpressionColumn(f.expression, previousName, name) } : f)
+      : [...fields, field];
+    if (onChange(next, renamed ? { from: previousName, to: name } : undefined)) setEditing(null);
+  };
+
+  const remove = (index: number) => {
+    const name = fields[index].name;
+    const dependent = fields.find((f, i) => {
+      if (i <= index) return false;
+      try {
+        return compileExpression(f.expression).columns.includes(name);
+      } catch {
+        return false;
+      }
+    });
+    if (dependent) {
+      alert(`字段 "${dependent.name}" 引用了 "${name}"，请先修改或删除它`);
+      return;
+    }
+    onChange(fields.filter((_f, i) => i !== index));
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-100 bg-white">
+      <div className="flex items-center justify-between cursor-pointer select-none" onClick={() => setIsOpen(!isOpen)}>
+        <div className="flex items-center gap-2 min-w-0">
+          <Calculator size={16} className="text-gray-500 flex-shrink-0"/>
+          <span className="text-sm font-semibold text-gray-800 truncate">计算字段</span>
+          <span className="text-xs text-gray-400">({fields.length})</span>
+        </div>
+        {isOpen ? <ChevronUp size={14} className="text-gray-400"/> : <ChevronDown size={14} className="text-gray-400"/>}
+      </div>
+      {isOpen && (
+        <div className="mt-3 space-y-1.5">
+          <p className="text-[10px] text-gray-400 leading-tight">
+            用 [字段名] 引用字段，支持 + - * / %、比较 (= &lt;&gt; &lt; &gt;)、AND / OR / NOT、&amp; 连接文本，函数：{EXPRESSION_FUNCTIONS.join(', ')}。重新导入数据后自动重新计算。
+          </p>
+          {fields.map((field, index) => editing === index ? (
+            <FieldEditor key={index} dataset={dataset} fields={fields} index={index} onSave={(f) => save(index, f)} onCancel={() => setEditing(null)} />
+          ) : (
+            <div key={field.name} className="rounded border border-gray-100 p-2 bg-white">
+              <div className="flex items-center gap-1">
+                <span className="flex-1 min-w-0 text-xs font-medium text-gray-700 truncate" title={field.name}>{field.name}</span>
+                {dataset.columnStats[field.name] ? (
+                  <span className="text-[10px] text-gray-400">{COLUMN_TYPE_LABELS[dataset.columnStats[field.name].type]}</span>
+                ) : (
+                  <span className="text-[10px] text-red-500" title={validateCalculatedField(dataset, fields, index) || ''}>无效</span>
+                )}
+                <button onClick={() => setEditing(index)} className="p-1 text-gray-400 hover:text-blue-600 rounded" title="编辑">
+                  <Pencil size={11}/>
+                </button>
+                <button onClick={() => remove(index)} className="p-1 text-gray-400 hover:text-red-500 rounded" title="删除">
+                  <Trash2 size={11}/>
+                </button>
+              </div>
+              <div className="text-[10px] text-gray-500 font-mono break-all mt-0.5">{field.expression}</div>
+            </div>
+          ))}
+          {editing === fields.length ? (
+            <FieldEditor dataset={dataset} fields={fields} index={fields.length} onSave={(f) => save(fields.length, f)} onCancel={() => setEditing(null)} />
+          ) : (
+            <button
+              onClick={() => setEditing(fields.length)}
+              className="w-full flex items-center justify-center gap-1 text-xs text-blue-600 border border-dashed border-blue-200 rounded py-1 hover:bg-blue-50"
+            >
+              <Plus size={12}/> 添加计算字段
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
 import { 
   BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis,
-  XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LabelList 
+  XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LabelList, ReferenceLine
 } from 'recharts';
-import { Settings, X } from 'lucide-react';
-import { CHART_COLORS } from '../lib/utils';
+import { Settings, X, ImageDown, FileSpreadsheet } from 'lucide-react';
+import { CHART_COLORS, downloadBlob } from '../lib/utils';
+import { exportChartSvg } from '../lib/exportImage';
+import { AggregateOperation, AGGREGATION_LABELS, ChartSeries, getCategoryLabel } from '../lib/data';
+
+const DEFAULT_SERIES: ChartSeries[] = [{ key: 'value', label: '' }];
 
 interface ChartWidgetProps {
   data: any[];
+  series?: ChartSeries[]; // Defaults to the single "value" series
   type: 'bar' | 'line' | 'pie' | 'radar'; 
   title: string;
   config: {
@@ -15,14 +20,25 @@ interface ChartWidgetProps {
     valueCol: string;
     showLabels?: boolean;
     unit?: 'wan' | 'yi' | '';
+    aggregation?: AggregateOperation;
+    stacked?: boolean;
   };
+  selectedCategories?: string[]; // Cross-filter selection to highlight
+  onSelectCategory?: (category: string, additive: boolean) => void;
+  onClearSelection?: () => void;
   onRemove?: () => void;
   onEdit?: () => void;
+  onExportData?: () => void;
 }
 
 const Y_AXIS_WIDTH = 50; // Increased to 50px to fit ~5 digits
 
-const ChartWidget: React.FC<ChartWidgetProps> = ({ data, type, title, config, onRemove, onEdit }) => {
+const NO_SELECTION: string[] = [];
+
+const ChartWidget: React.FC<ChartWidgetProps> = ({ 
+  data, series = DEFAULT_SERIES, type, title, config, 
+  selectedCategories = NO_SELECTION, onSelectCategory, onClearSelection, onRemove, onEdit, onExportData 
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerWidth, setContainerWidth] = useState(0);
 
@@ -45,21 +61,34 @@ const ChartWidget: React.FC<ChartWidgetProps> = ({ data, type, title, config, on
   const divisor = unit === 'wan' ? 10000 : (unit === 'yi' ? 100000000 : 1);
   const unitLabel = unit === 'wan' ? '万' : (unit === 'yi' ? '亿' : '');
 
+  // Aggregation shown in tooltip and on the value axis, e.g. "销售额 (平均值)"
+  const aggregationLabel = AGGREGATION_LABELS[config.aggregation || 'sum'];
+  const seriesLabel = config.valueCol ? `${config.valueCol} (${aggregationLabel})` : aggregationLabel;
+  const axisLabel = unitLabel ? `${aggregationLabel} (${unitLabel})` : aggregationLabel;
+
+  // Multi-series charts label each series by its own name and need a legend
+  const isMultiSeries = series.length > 1;
+  const getSeriesName = (s: ChartSeries) => isMultiSeries ? s.label : seriesLabel;
+  const getSeriesColor = (index: number) => CHART_COLORS[index % CHART_COLORS.length];
+
   const processedData = useMemo(() => {
     if (!data || data.length === 0) return [];
     if (divisor === 1) return data;
     
-    return data.map(item => ({
-        ...item,
-        // Scale the value but keep precision for tooltip.
-        // We do NOT use toFixed(2) here anymore, so Tooltip can show exact value.
-        value: Number(item.value) / divisor
-    }));
-  }, [data, divisor]);
+    return data.map(item => {
+        const scaled = { ...item };
+        series.forEach(s => {
+            // Scale the value but keep precision for tooltip.
+            // We do NOT use toFixed(2) here anymore, so Tooltip can show exact value.
+            scaled[s.key] = Number(item[s.key]) / divisor;
+        });
+        return scaled;
+    });
+  }, [data, series, divisor]);
 
   // Calculate dynamic truncation length
   const getTruncatedLabel = (val: any) => {
-      const str = String(val);
+      const str = getCategoryLabel(val);
       if (!containerWidth || processedData.length === 0) return str;
 
       // Estimate width logic:
@@ -88,22 +117,50 @@ const ChartWidget: React.FC<ChartWidgetProps> = ({ data, type, title, config, on
   };
 
   // Formatter for Tooltip (Show specific value)
-  const formatTooltipValue = (val: number) => {
-      return `${val}${unitLabel}`;
+  const formatTooltipValue = (val: number, name: string) => {
+      return [`${val}${unitLabel}`, name];
   };
 
+  // --- Cross-filter selection ---
+  const hasSelection = selectedCategories.length > 0;
+  const isDimmed = (name: any) => hasSelection && !selectedCategories.includes(String(name));
+
+  // Chart-level click (bar / line / radar): the category under the cursor
+  const handleChartClick = onSelectCategory
+      ? (state: any, e: any) => {
+          if (state?.activeLabel === undefined) return;
+          onSelectCategory(String(state.activeLabel), !!(e?.ctrlKey || e?.metaKey));
+      }
+      : undefined;
+  const clickableStyle = onSelectCategory ? { cursor: 'pointer' } : undefined;
+
+  // Selected radar vertices get a bold blue label
+  const renderRadarTick = ({ x, y, payload, textAnchor }: any) => (
+      <text 
+          x={x} y={y} textAnchor={textAnchor} dominantBaseline="central" fontSize={10}
+          fill={hasSelection && !isDimmed(payload.value) ? '#2563eb' : '#666'}
+          fontWeight={hasSelection && !isDimmed(payload.value) ? 600 : 400}
+      >
+          {getCategoryLabel(payload.value)}
+      </text>
+  );
+
+  const legend = isMultiSeries
+      ? <Legend verticalAlign="bottom" height={24} iconSize={8} wrapperStyle={{ fontSize: '10px' }}/>
+      : null;
+
   const renderChart = () => {
     if (!processedData || processedData.length === 0) return <div className="flex items-center justify-center h-full text-gray-400">无数据</div>;
 
     // Compact margins
-    const commonMargin = { top: unitLabel ? 20 : 10, right: 5, left: 0, bottom: 0 };
+    const commonMargin = { top: 20, right: 5, left: 0, bottom: 0 };
     const axisStyle = { fontSize: 10, fill: '#6b7280' };
 
     switch (type) {
       case 'bar':
         return (
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={processedData} margin={commonMargin}>
+            <BarChart data={processedData} margin={commonMargin} onClick={handleChartClick} style={clickableStyle}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} />
               <XAxis 
                 dataKey="name" 
@@ -119,38 +176,52 @@ const ChartWidget: React.FC<ChartWidgetProps> = ({ data, type, title, config, on
                 tickLine={false} 
                 axisLine={false} 
                 width={Y_AXIS_WIDTH} // Updated Width
-                label={unitLabel ? { 
-                    value: unitLabel, 
+                label={{ 
+                    value: axisLabel, 
                     position: 'top', 
                     offset: 10, 
                     fontSize: 10, 
                     fill: '#9ca3af',
                     dx: 0
-                } : undefined}
+                }}
               />
               <Tooltip 
                 cursor={{ fill: 'transparent' }} 
                 formatter={formatTooltipValue}
+                labelFormatter={getCategoryLabel}
                 contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }} 
               />
-              <Bar dataKey="value" fill="#3b82f6" radius={[4, 4, 0, 0]}>
-                 {config.showLabels && (
-                    <LabelList 
-                        dataKey="value" 
-                        position="top" 
-                        fontSize={10} 
-                        fill="#666" 
-                        formatter={formatLabelValue} 
-                    />
-                 )}
-              </Bar>
+              {legend}
+              {series.map((s, index) => (
+                <Bar 
+                    key={s.key}
+                    dataKey={s.key} 
+                    name={getSeriesName(s)}
+                    fill={getSeriesColor(index)} 
+                    stackId={config.stacked ? 'stack' : undefined}
+                    radius={config.stacked && index < series.length - 1 ? 0 : [4, 4, 0, 0]}
+                >
+                   {processedData.map((entry, i) => (
+                      <Cell key={`cell-${i}`} fillOpacity={isDimmed(entry.name) ? 0.3 : 1} />
+                   ))}
+                   {config.showLabels && (
+                      <LabelList 
+                          dataKey={s.key} 
+                          position={config.stacked ? 'center' : 'top'} 
+                          fontSize={10} 
+                          fill="#666" 
+                          formatter={formatLabelValue} 
+                      />
+                   )}
+                </Bar>
+              ))}
             </BarChart>
           </ResponsiveContainer>
         );
       case 'line':
         return (
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={processedData} margin={commonMargin}>
+            <LineChart data={processedData} margin={commonMargin} onClick={handleChartClick} style={clickableStyle}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} />
               <XAxis 
                 dataKey="name" 
@@ -166,38 +237,47 @@ const ChartWidget: React.FC<ChartWidgetProps> = ({ data, type, title, config, on
                 tickLine={false} 
                 axisLine={false} 
                 width={Y_AXIS_WIDTH} // Updated Width
-                label={unitLabel ? { 
-                    value: unitLabel, 
+                label={{ 
+                    value: axisLabel, 
                     position: 'top', 
                     offset: 10, 
                     fontSize: 10, 
                     fill: '#9ca3af',
                     dx: 0
-                } : undefined}
+                }}
               />
               <Tooltip 
                 formatter={formatTooltipValue}
+                labelFormatter={getCategoryLabel}
                 contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }} 
               />
-              <Line 
-                type="monotone" 
-                dataKey="value" 
-                stroke="#3b82f6" 
-                strokeWidth={2} 
-                dot={{ r: 2 }} 
-                activeDot={{ r: 4 }}
-              >
-                 {config.showLabels && (
-                    <LabelList 
-                        dataKey="value" 
-                        position="top" 
-                        offset={10} 
-                        fontSize={10} 
-                        fill="#666" 
-                        formatter={formatLabelValue}
-                    />
-                 )}
-              </Line>
+              {legend}
+              {selectedCategories.map(name => (
+                <ReferenceLine key={name} x={name} stroke="#2563eb" strokeDasharray="3 3" />
+              ))}
+              {series.map((s, index) => (
+                <Line 
+                  key={s.key}
+                  type="monotone" 
+                  dataKey={s.key} 
+                  name={getSeriesName(s)}
+                  stroke={getSeriesColor(index)} 
+                  strokeWidth={2} 
+                  dot={{ r: 2 }} 
+                  activeDot={{ r: 4 }}
+                >
+                   {config.showLabels && (
+                      <LabelList 
+                          dataKey={s.key} 
+                          position="top" 
+                          offset={10} 
+                          fontSize={10} 
+                          fill="#666" 
+                          formatter={formatLabelValue}
+                      />
+                   )}
+                </Line>
+              ))}
             </LineChart>
           </ResponsiveContainer>
         );
@@ -212,35 +292,45 @@ const ChartWidget: React.FC<ChartWidgetProps> = ({ data, type, title, config, on
                 innerRadius={30}
                 outerRadius={60}
                 paddingAngle={5}
-                dataKey="value"
+                dataKey={series[0].key} // Pie charts show the first series only
                 // Simplified label
                 label={config.showLabels ? ({ percent }) => `${(percent * 100).toFixed(0)}%` : false}
                 labelLine={false}
+                onClick={onSelectCategory ? (entry: any, _index: number, e: any) => onSelectCategory(String(entry.name), !!(e?.ctrlKey || e?.metaKey)) : undefined}
+                style={clickableStyle}
               >
                 {processedData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                  <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} fillOpacity={isDimmed(entry.name) ? 0.3 : 1} />
                 ))}
               </Pie>
-              <Tooltip formatter={(value, name) => [`${value}${unitLabel}`, name]} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }} />
-              <Legend verticalAlign="bottom" height={24} iconSize={8} wrapperStyle={{ fontSize: '10px' }}/>
+              <Tooltip formatter={(value, name) => [`${value}${unitLabel}`, `${getCategoryLabel(name)} · ${aggregationLabel}`]} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }} />
+              <Legend verticalAlign="bottom" height={24} iconSize={8} wrapperStyle={{ fontSize: '10px' }} formatter={getCategoryLabel}/>
             </PieChart>
           </ResponsiveContainer>
         );
       case 'radar':
         return (
           <ResponsiveContainer width="100%" height="100%">
-            <RadarChart cx="50%" cy="50%" outerRadius="65%" data={processedData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
+            <RadarChart cx="50%" cy="50%" outerRadius="65%" data={processedData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }} onClick={handleChartClick} style={clickableStyle}>
               <PolarGrid />
-              <PolarAngleAxis dataKey="name" tick={{ fontSize: 10, fill: '#666' }} />
+              <PolarAngleAxis dataKey="name" tick={hasSelection ? renderRadarTick : { fontSize: 10, fill: '#666' }} tickFormatter={getCategoryLabel} />
               <PolarRadiusAxis angle={30} domain={[0, 'auto']} tick={false} axisLine={false}/>
-              <Radar
-                name={`${config.valueCol} ${unitLabel ? `(${unitLabel})` : ''}`}
-                dataKey="value"
-                stroke="#8884d8"
-                fill="#8884d8"
-                fillOpacity={0.6}
-              />
-              <Tooltip formatter={(value) => `${value}${unitLabel}`} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }} />
+              {series.map((s, index) => {
+                const color = isMultiSeries ? getSeriesColor(index) : '#8884d8';
+                const name = getSeriesName(s);
+                return (
+                  <Radar
+                    key={s.key}
+                    name={unitLabel ? `${name} (${unitLabel})` : name}
+                    dataKey={s.key}
+                    stroke={color}
+                    fill={color}
+                    fillOpacity={isMultiSeries ? 0.3 : 0.6}
+                  />
+                );
+              })}
+              {legend}
+              <Tooltip formatter={(value, name) => [`${value}${unitLabel}`, name]} labelFormatter={getCategoryLabel} contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '12px' }} />
             </RadarChart>
           </ResponsiveContainer>
         );
@@ -249,11 +339,45 @@ const ChartWidget: React.FC<ChartWidgetProps> = ({ data, type, title, config, on
     }
   };
 
+  const handleExportSvg = () => {
+    const blob = containerRef.current && exportChartSvg(containerRef.current, title);
+    if (!blob) return alert("图表尚未渲染，无法导出");
+    downloadBlob(blob, `${title || '图表'}.svg`);
+  };
+
   return (
     <div className="flex flex-col h-full w-full bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden group">
       <div className="flex items-center justify-between p-1.5 border-b border-gray-100 bg-gray-50 draggable-handle cursor-move h-7 min-h-[28px]">
         <h3 className="font-semibold text-gray-700 text-xs truncate select-none pl-1" title={title}>{title}</h3>
+        {hasSelection && onClearSelection && (
+          <button
+              onClick={(e) => { e.stopPropagation(); onClearSelection(); }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="ml-auto mr-1 flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] text-blue-600 bg-blue-50 hover:bg-blue-100 rounded flex-shrink-0 transition-colors"
+              title={`已选：${selectedCategories.join('、')}`}
+          >
+            <X size={9} /> 清除选择 ({selectedCategories.length})
+          </button>
+        )}
         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity pr-1">
+          <button 
+              onClick={(e) => { e.stopPropagation(); handleExportSvg(); }} 
+              onMouseDown={(e) => e.stopPropagation()} 
+              className="p-0.5 hover:bg-gray-200 rounded text-gray-500 transition-colors"
+              title="导出 SVG"
+          >
+            <ImageDown size={11} />
+          </button>
+          {onExportData && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onExportData(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="p-0.5 hover:bg-gray-200 rounded text-gray-500 transition-colors"
+                title="导出数据 (Excel)"
+             >
+               <FileSpreadsheet size={11} />
+             </button>
+          )}
           {onEdit && (
              <button 
                 onClick={(e) => { e.stopPropagation(); onEdit(); }} 
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Settings2, Eye, EyeOff, ChevronDown, ChevronUp } from 'lucide-react';
+import { Dataset, ColumnOverride, ColumnType } from '../lib/data';
+import { getColumnOverride, isCalculatedColumn } from '../lib/schema';
+import { cn } from '../lib/utils';
+
+const TYPE_OPTIONS: { value: ColumnType; label: string }[] = [
+  { value: 'numeric', label: '数值' },
+  { value: 'date', label: '日期' },
+  { value: 'text', label: '文本' },
+];
+
+const DATE_FORMAT_PRESETS = ['', 'yyyy-mm-dd', 'yyyy/mm/dd', 'dd/mm/yyyy', 'mm/dd/yyyy', 'yyyymmdd', 'yyyy年m月d日'];
+
+interface DatasetSchemaPanelProps {
+  dataset: Dataset;
+  onUpdateColumn: (col: string, change: ColumnOverride) => void;
+}
+
+// Editable row for a single column; the name is committed on blur / Enter
+const ColumnRow: React.FC<{ dataset: Dataset; col: string; onUpdateColumn: DatasetSchemaPanelProps['onUpdateColumn'] }> = ({ dataset, col, onUpdateColumn }) => {
+  const stats = dataset.columnStats[col];
+  const override = getColumnOverride(dataset, col);
+  const [name, setName] = useState(col);
+
+  useEffect(() => setName(col), [col]);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === col) {
+        setName(col);
+        return;
+    }
+    if (dataset.columnStats[trimmed]) {
+        alert(`字段 "${trimmed}" 已存在`);
+        setName(col);
+        return;
+    }
+    onUpdateColumn(col, { name: trimmed });
+  };
+
+  return (
+    <div className={cn("rounded border border-gray-100 p-2 space-y-1.5 bg-white", override.hidden && "opacity-50")}>
+      <div className="flex items-center gap-1">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          className="flex-1 min-w-0 text-xs border border-transparent hover:border-gray-200 focus:border-blue-300 rounded px-1 py-0.5 outline-none"
+          title={name}
+        />
+        <select
+          value={stats.type}
+          onChange={(e) => onUpdateColumn(col, { type: e.target.value as ColumnType })}
+          className="text-xs border border-gray-200 rounded px-1 py-0.5 bg-white text-gray-600"
+        >
+          {TYPE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+        </select>
+        <button
+          onClick={() => onUpdateColumn(col, { hidden: !override.hidden })}
+          className="p-1 text-gray-400 hover:text-blue-600 rounded"
+          title={override.hidden ? "显示字段" : "隐藏字段"}
+        >
+          {override.hidden ? <EyeOff size={12}/> : <Eye size={12}/>}
+        </button>
+      </div>
+      {stats.type === 'date' && (
+        <div className="flex items-center gap-1 text-[10px] text-gray-500">
+          <span className="flex-shrink-0">解析格式</span>
+          <select
+            value={override.dateFormat || ''}
+            onChange={(e) => onUpdateColumn(col, { dateFormat: e.target.value })}
+            className="flex-1 min-w-0 border border-gray-200 rounded px-1 py-0.5 bg-white"
+          >
+            {DATE_FORMAT_PRESETS.map(f => <option key={f} value={f}>{f || '自动识别'}</option>)}
+          </select>
+        </div>
+      )}
+      <div className="text-[10px] text-gray-400 flex justify-between">
+        <span>置信度 {Math.round(stats.confidence * 100)}%</span>
+        <span>空值 {stats.nullCount}</span>
+      </div>
+    </div>
+  );
+};
+
+export default function DatasetSchemaPanel({ dataset, onUpdateColumn }: DatasetSchemaPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Calculated columns are edited in their own panel
+  const allColumns = Object.keys(dataset.columnStats).filter(col => !isCalculatedColumn(dataset, col));
+
+  return (
+    <div className="p-4 border-b border-gray-100 bg-white">
+      <div className="flex items-center justify-between cursor-pointer select-none" onClick={() => setIsOpen(!isOpen)}>
+        <div className="flex items-center gap-2 min-w-0">
+          <Settings2 size={16} className="text-gray-500 flex-shrink-0"/>
+          <span className="text-sm font-semibold text-gray-800 truncate">字段设置</span>
+          <span className="text-xs text-gray-400">({allColumns.length})</span>
+        </div>
+        {isOpen ? <ChevronUp size={14} className="text-gray-400"/> : <ChevronDown size={14} className="text-gray-400"/>}
+      </div>
+      {isOpen && (
+        <div className="mt-3 space-y-1.5">
+          <p className="text-[10px] text-gray-400 leading-tight">修改类型后数据将按新类型重新转换；重命名后引用该字段的图表和切片器会同步更新。</p>
+          {allColumns.map(col => (
+            <ColumnRow key={col} dataset={dataset} col={col} onUpdateColumn={onUpdateColumn} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
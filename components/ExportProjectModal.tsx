@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Download, X, Database } from 'lucide-react';
+
+interface ExportProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (fileName: string, includeData: boolean) => void;
+  boardCount: number;
+  datasetCount: number;
+}
+
+export default function ExportProjectModal({ isOpen, onClose, onExport, boardCount, datasetCount }: ExportProjectModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [includeData, setIncludeData] = useState(true);
+
+  useEffect(() => {
+    if (isOpen) {
+        setFileName(`看板项目_${new Date().toISOString().slice(0, 10)}`);
+        setIncludeData(true);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = () => {
+    if (!fileName.trim()) {
+        alert("请输入文件名");
+        return;
+    }
+    onExport(fileName.trim(), includeData);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800">导出项目</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20}/></button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            将导出 {boardCount} 个看板（布局、组件、看板筛选）以及公共切片器。
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">文件名</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-shadow"
+              />
+              <span className="text-sm text-gray-400">.dashboard</span>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-2 pt-2">
+            <input
+                type="checkbox"
+                id="includeData"
+                checked={includeData}
+                onChange={(e) => setIncludeData(e.target.checked)}
+                className="w-4 h-4 mt-0.5 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+            />
+            <label htmlFor="includeData" className="text-sm text-gray-700 select-none cursor-pointer">
+                <span className="flex items-center gap-1"><Database size={14} className="text-gray-500"/> 包含数据 ({datasetCount} 个数据源)</span>
+                <span className="block text-xs text-gray-400 mt-0.5">不包含数据时，对方需导入相同字段的文件后重新绑定数据源</span>
+            </label>
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            className="w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg shadow transition-colors mt-4 active:scale-[0.99] transform flex items-center justify-center gap-2"
+          >
+            <Download size={16} /> 导出
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
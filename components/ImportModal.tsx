@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FileSpreadsheet, X, CheckSquare, Square } from 'lucide-react';
+import { ParsedSheet, DataRow, ImportOptions } from '../lib/data';
+import { TextImportOptions, TextEncoding, ENCODING_LABELS, DELIMITER_LABELS, buildSheetRows } from '../lib/fileImport';
+import { cn } from '../lib/utils';
+
+const PREVIEW_ROWS = 8;
+const RAW_PREVIEW_ROWS = 15;
+
+// A sheet chosen for import, cut with the options the user settled on
+export interface ImportSelection {
+  sheetName: string;
+  rows: DataRow[];
+  options?: ImportOptions; // Only for sheets read from a cell grid (Excel / CSV)
+}
+
+interface ImportModalProps {
+  isOpen: boolean;
+  fileName: string;
+  sheets: ParsedSheet[];
+  onClose: () => void;
+  onImport: (selections: ImportSelection[]) => void;
+  replacing?: string; // Name of the dataset whose data is being replaced; only one sheet can be picked
+  textOptions?: TextImportOptions; // Set for CSV / TSV / JSON files
+  onChangeTextOptions?: (options: TextImportOptions) => void;
+  initialOptions?: ImportOptions; // Options saved on the dataset being replaced
+}
+
+export default function ImportModal({ isOpen, fileName, sheets, onClose, onImport, replacing, textOptions, onChangeTextOptions, initialOptions }: ImportModalProps) {
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [previewSheet, setPreviewSheet] = useState<string>('');
+  const [optionsBySheet, setOptionsBySheet] = useState<{ [sheet: string]: ImportOptions }>({});
+
+  // Default to the first sheet that actually has data
+  useEffect(() => {
+    if (isOpen) {
+        const firstWithData = sheets.find(s => s.rows.length > 0);
+        setSelectedSheets(firstWithData ? [firstWithData.name] : []);
+        setPreviewSheet(firstWithData?.name || sheets[0]?.name || '');
+        const options: { [sheet: string]: ImportOptions } = {};
+        sheets.forEach(s => {
+            if (s.options) options[s.name] = initialOptions || s.options;
+        });
+        setOptionsBySheet(options);
+    }
+  }, [isOpen, sheets, initialOptions]);
+
+  // Rows of every sheet as cut with its current options
+  const rowsBySheet = useMemo(() => {
+    const result: { [sheet: string]: DataRow[] } = {};
+    sheets.forEach(s => {
+        const options = optionsBySheet[s.name];
+        result[s.name] = s.cells && options ? buildSheetRows(s.cells, options) : s.rows;
+    });
+    return result;
+  }, [sheets, optionsBySheet]);
+
+  const currentSheet = sheets.find(s => s.name === previewSheet);
+  const currentOptions = optionsBySheet[previewSheet];
+
+  const preview = useMemo(() => {
+    if (!currentSheet) return null;
+    const rows = (rowsBySheet[currentSheet.name] || []).slice(0, PREVIEW_ROWS);
+    const columns = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+    return { rows, columns };
+  }, [currentSheet, rowsBySheet]);
+
+  const updateOptions = (change: Partial<ImportOptions>) => {
+    if (!currentOptions) return;
+    setOptionsBySheet(prev => ({ ...prev, [previewSheet]: { ...currentOptions, ...change } }));
+  };
+
+  if (!isOpen) return null;
+
+  const toggleSheet = (name: string) => {
+    if (replacing) {
+        setSelectedSheets([name]);
+        return;
+    }
+    setSelectedSheets(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const handleSubmit = () => {
+    if (selectedSheets.length === 0) {
+        alert("请至少选择一个工作表");
+        return;
+    }
+    if (selectedSheets.every(name => rowsBySheet[name].length === 0)) {
+        alert("按当前设置，所选工作表没有数据");
+        return;
+    }
+    // Keep workbook order regardless of click order
+    onImport(sheets
+      .filter(s => selectedSheets.includes(s.name) && rowsBySheet[s.name].length > 0)
+      .map(s => ({ sheetName: s.name, rows: rowsBySheet[s.name], options: optionsBySheet[s.name] }))
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-gray-800">{replacing ? `替换数据：${replacing}` : '导入数据'}</h2>
+            <p className="text-xs text-gray-400 truncate" title={fileName}>{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20}/></button>
+        </div>
+
+        <div className="flex gap-4 flex-1 min-h-0">
+          {/* Sheet List */}
+          <div className="w-56 flex-shrink-0 flex flex-col">
+            <label className="block text-sm font-medium text-gray-700 mb-2">工作表 ({sheets.length})</label>
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+              {sheets.map(sheet => {
+                const isEmpty = rowsBySheet[sheet.name].length === 0;
+                const isSelected = selectedSheets.includes(sheet.name);
+                return (
+                  <div
+                    key={sheet.name}
+                    onClick={() => setPreviewSheet(sheet.name)}
+                    className={cn(
+                      "flex items-center gap-2 px-2 py-1.5 rounded-md text-sm border cursor-pointer select-none",
+                      previewSheet === sheet.name ? "bg-blue-50 border-blue-200" : "border-transparent hover:bg-gray-100",
+                      isEmpty && "opacity-50"
+                    )}
+                  >
+                    <button
+                      disabled={isEmpty}
+                      onClick={(e) => { e.stopPropagation(); toggleSheet(sheet.name); }}
+                      className="text-gray-400 hover:text-blue-600 disabled:cursor-not-allowed"
+                    >
+                      {isSelected ? <CheckSquare size={16} className="text-blue-600"/> : <Square size={16}/>}
+                    </button>
+                    <FileSpreadsheet size={14} className="text-green-600 flex-shrink-0"/>
+                    <span className="truncate flex-1" title={sheet.name}>{sheet.name}</span>
+                    <span className="text-[10px] text-gray-400 flex-shrink-0">{rowsBySheet[sheet.name].length} 行</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                预览 {preview && preview.rows.length > 0 && <span className="text-xs font-normal text-gray-400">(前 {preview.rows.length} 行)</span>}
+              </label>
+              {/* Detected decoding of text files; changing it re-reads the file */}
+              {textOptions && onChangeTextOptions && (
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <span>编码</span>
+                  <select
+                    value={textOptions.encoding}
+                    onChange={(e) => onChangeTextOptions({ ...textOptions, encoding: e.target.value as TextEncoding })}
+                    className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                  >
+                    {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(enc => <option key={enc} value={enc}>{ENCODING_LABELS[enc]}</option>)}
+                  </select>
+                  {textOptions.delimiter && (
+                    <>
+                      <span>分隔符</span>
+                      <select
+                        value={textOptions.delimiter}
+                        onChange={(e) => onChangeTextOptions({ ...textOptions, delimiter: e.target.value })}
+                        className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                      >
+                        {Object.keys(DELIMITER_LABELS).map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+                      </select>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+            {currentSheet?.cells && currentOptions && (
+              <div className="mb-3 space-y-2 flex-shrink-0">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5 text-xs text-gray-600">
+                  <label className="flex items-center gap-1">
+                    表头在第
+                    <input
+                      type="number" min={1} max={currentSheet.cells.length}
+                      value={currentOptions.headerRow + 1}
+                      onChange={(e) => updateOptions({ headerRow: Math.max(0, (Number(e.target.value) || 1) - 1) })}
+                      className="w-14 border border-gray-200 rounded px-1 py-0.5"
+                    />
+                    行
+                  </label>
+                  <label className="flex items-center gap-1">
+                    表头行数
+                    <select
+                      value={currentOptions.headerRows}
+                      onChange={(e) => updateOptions({ headerRows: Number(e.target.value) })}
+                      className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                    >
+                      {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    跳过末尾
+                    <input
+                      type="number" min={0}
+                      value={currentOptions.skipBottom}
+                      onChange={(e) => updateOptions({ skipBottom: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-14 border border-gray-200 rounded px-1 py-0.5"
+                    />
+                    行
+                  </label>
+                  <label className="flex items-center gap-1 cursor-pointer select-none">
+                    <input type="checkbox" checked={currentOptions.dropEmptyRows} onChange={(e) => updateOptions({ dropEmptyRows: e.target.checked })} className="rounded text-blue-600"/>
+                    删除空行
+                  </label>
+                  <label className="flex items-center gap-1 cursor-pointer select-none">
+                    <input type="checkbox" checked={currentOptions.dropEmptyColumns} onChange={(e) => updateOptions({ dropEmptyColumns: e.target.checked })} className="rounded text-blue-600"/>
+                    删除空列
+                  </label>
+                </div>
+                {/* Raw sheet rows; clicking a row number makes it the header */}
+                <div className="max-h-36 overflow-auto custom-scrollbar border border-gray-200 rounded-lg">
+                  <table className="text-[11px] w-full">
+                    <tbody>
+                      {currentSheet.cells.slice(0, RAW_PREVIEW_ROWS).map((cells, idx) => {
+                        const isHeader = idx >= currentOptions.headerRow && idx < currentOptions.headerRow + currentOptions.headerRows;
+                        return (
+                          <tr key={idx} className={cn("border-b border-gray-100 last:border-0", isHeader && "bg-blue-50 font-semibold text-blue-700", idx < currentOptions.headerRow && "text-gray-300")}>
+                            <td
+                              onClick={() => updateOptions({ headerRow: idx })}
+                              className="px-1.5 py-0.5 text-gray-400 bg-gray-50 text-right cursor-pointer hover:text-blue-600 sticky left-0"
+                              title="设为表头行"
+                            >
+                              {idx + 1}
+                            </td>
+                            {cells.map((cell, col) => (
+                              <td key={col} className="px-1.5 py-0.5 whitespace-nowrap max-w-[140px] truncate">{String(cell ?? '')}</td>
+                            ))}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+            <div className="flex-1 overflow-auto custom-scrollbar border border-gray-200 rounded-lg">
+              {!preview || preview.rows.length === 0 ? (
+                <div className="flex items-center justify-center h-full text-gray-400 text-sm p-6">该工作表无数据</div>
+              ) : (
+                <table className="text-xs w-full">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      {preview.columns.map(col => (
+                        <th key={col} className="px-2 py-1.5 text-left font-semibold text-gray-600 whitespace-nowrap border-b border-gray-200">{col}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map((row, idx) => (
+                      <tr key={idx} className="border-b border-gray-100 last:border-0">
+                        {preview.columns.map(col => (
+                          <td key={col} className="px-2 py-1 text-gray-700 whitespace-nowrap max-w-[200px] truncate">{row[col] === undefined ? '' : String(row[col])}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          className="w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg shadow transition-colors mt-4 active:scale-[0.99] transform flex-shrink-0"
+        >
+          {replacing ? '用所选工作表替换' : `导入所选工作表 (${selectedSheets.length})`}
+        </button>
+      </div>
+    </div>
+  );
+}
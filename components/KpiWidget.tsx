@@ -0,0 +1,111 @@
+import React from 'react';
+import { Settings, X, FileSpreadsheet, TrendingUp, TrendingDown, Target } from 'lucide-react';
+import { AggregateOperation, AGGREGATION_LABELS } from '../lib/data';
+import { KpiResult } from '../lib/kpi';
+import { cn } from '../lib/utils';
+
+interface KpiWidgetProps {
+  result: KpiResult;
+  title: string;
+  config: {
+    valueCol: string;
+    aggregation?: AggregateOperation;
+    unit?: 'wan' | 'yi' | '';
+    compareMode?: 'none' | 'target' | 'previous';
+    higherIsBetter?: boolean;
+  };
+  onRemove?: () => void;
+  onEdit?: () => void;
+  onExportData?: () => void;
+}
+
+// Up to 2 decimals, with thousands separators
+const formatNumber = (val: number) => val.toLocaleString('zh-CN', { maximumFractionDigits: 2 });
+
+const KpiWidget: React.FC<KpiWidgetProps> = ({ result, title, config, onRemove, onEdit, onExportData }) => {
+  const { unit } = config;
+  const divisor = unit === 'wan' ? 10000 : (unit === 'yi' ? 100000000 : 1);
+  const unitLabel = unit === 'wan' ? '万' : (unit === 'yi' ? '亿' : '');
+  const aggregationLabel = AGGREGATION_LABELS[config.aggregation || 'sum'];
+
+  const { value, compareValue } = result;
+  const hasComparison = compareValue !== undefined;
+  const higherIsBetter = config.higherIsBetter !== false;
+
+  // Change vs. previous period, or completion vs. target
+  const delta = hasComparison ? value - compareValue! : 0;
+  const ratio = hasComparison && compareValue !== 0 ? delta / Math.abs(compareValue!) : null;
+  const isUp = delta > 0;
+  const isGood = delta === 0 || (isUp === higherIsBetter);
+
+  return (
+    <div className="flex flex-col h-full w-full bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden group">
+      <div className="flex items-center justify-between p-1.5 border-b border-gray-100 bg-gray-50 draggable-handle cursor-move h-7 min-h-[28px]">
+        <h3 className="font-semibold text-gray-700 text-xs truncate select-none pl-1" title={title}>{title}</h3>
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity pr-1">
+          {onExportData && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onExportData(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="p-0.5 hover:bg-gray-200 rounded text-gray-500 transition-colors"
+                title="导出数据 (Excel)"
+             >
+               <FileSpreadsheet size={11} />
+             </button>
+          )}
+          {onEdit && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onEdit(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="p-0.5 hover:bg-gray-200 rounded text-gray-500 transition-colors"
+                title="编辑"
+             >
+               <Settings size={11} />
+             </button>
+          )}
+          {onRemove && (
+            <button
+                onClick={(e) => { e.stopPropagation(); onRemove(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="p-0.5 hover:bg-red-100 hover:text-red-500 rounded text-gray-400 transition-colors"
+                title="移除"
+            >
+              <X size={11} />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 flex flex-col items-center justify-center px-3 py-2 text-center">
+        <div className="text-[10px] text-gray-400 truncate max-w-full">
+          {config.valueCol ? `${config.valueCol} · ` : ''}{aggregationLabel}
+          {result.periodLabel && ` · ${result.periodLabel}`}
+        </div>
+        <div className="text-3xl font-bold text-gray-800 leading-tight truncate max-w-full">
+          {formatNumber(value / divisor)}
+          {unitLabel && <span className="text-base font-medium text-gray-500 ml-0.5">{unitLabel}</span>}
+        </div>
+        {hasComparison && (
+          <div className={cn("flex items-center gap-1 text-xs font-medium mt-1", isGood ? "text-green-600" : "text-red-500")}>
+            {config.compareMode === 'target' ? <Target size={12}/> : (isUp ? <TrendingUp size={12}/> : <TrendingDown size={12}/>)}
+            {config.compareMode === 'target' ? (
+              <span>
+                完成 {compareValue !== 0 ? `${formatNumber((value / compareValue!) * 100)}%` : '-'}
+                <span className="text-gray-400 font-normal ml-1">目标 {formatNumber(compareValue! / divisor)}{unitLabel}</span>
+              </span>
+            ) : (
+              <span>
+                {isUp ? '+' : ''}{ratio !== null ? `${formatNumber(ratio * 100)}%` : formatNumber(delta / divisor)}
+                <span className="text-gray-400 font-normal ml-1">较 {result.comparePeriodLabel}</span>
+              </span>
+            )}
+          </div>
+        )}
+        {config.compareMode === 'previous' && !hasComparison && result.comparePeriodLabel && (
+          <div className="text-[10px] text-gray-400 mt-1">{result.comparePeriodLabel} 无数据</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KpiWidget;
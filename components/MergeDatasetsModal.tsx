@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GitMerge, X, Plus, Trash2, CheckSquare, Square, AlertTriangle } from 'lucide-react';
+import { Dataset, MergeKind, MergeSpec } from '../lib/data';
+import { MERGE_KIND_LABELS, DEFAULT_SOURCE_COLUMN, getMismatchedColumns, mergeRows } from '../lib/merge';
+import { cn } from '../lib/utils';
+
+interface MergeDatasetsModalProps {
+  isOpen: boolean;
+  datasets: Dataset[];
+  onClose: () => void;
+  onMerge: (name: string, spec: MergeSpec) => void;
+}
+
+const KIND_HINTS: { [k in MergeKind]: string } = {
+  left: '保留左表全部行，右表匹配不到的字段留空',
+  inner: '只保留两表都能匹配上的行',
+  full: '保留两表的全部行',
+  append: '把字段相同的多个文件 (如按月导出) 上下拼接'
+};
+
+const selectClass = "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function MergeDatasetsModal({ isOpen, datasets, onClose, onMerge }: MergeDatasetsModalProps) {
+  const [kind, setKind] = useState<MergeKind>('left');
+  const [leftId, setLeftId] = useState('');
+  const [rightId, setRightId] = useState('');
+  const [keys, setKeys] = useState<{ left: string; right: string }[]>([]);
+  const [appendIds, setAppendIds] = useState<string[]>([]);
+  const [addSourceColumn, setAddSourceColumn] = useState(true);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+        setKind('left');
+        setLeftId(datasets[0]?.id || '');
+        setRightId(datasets[1]?.id || '');
+        setKeys([]);
+        setAppendIds([]);
+        setAddSourceColumn(true);
+        setName('');
+    }
+  }, [isOpen]);
+
+  const left = datasets.find(d => d.id === leftId);
+  const right = datasets.find(d => d.id === rightId);
+
+  // Suggest the columns both sides share as the first key
+  useEffect(() => {
+    if (!left || !right) return;
+    const shared = left.columns.find(col => right.columns.includes(col));
+    setKeys(shared ? [{ left: shared, right: shared }] : [{ left: left.columns[0] || '', right: right.columns[0] || '' }]);
+  }, [leftId, rightId]);
+
+  const spec: MergeSpec = kind === 'append'
+    ? { kind, sourceIds: datasets.map(d => d.id).filter(id => appendIds.includes(id)), sourceColumn: addSourceColumn ? DEFAULT_SOURCE_COLUMN : undefined }
+    : { kind, sourceIds: [leftId, rightId], keys };
+
+  const defaultName = kind === 'append'
+    ? `合并 (${spec.sourceIds.length} 个数据源)`
+    : `${left?.name || ''} ⋈ ${right?.name || ''}`;
+
+  // Row count of the result, or why it cannot be built
+  const outcome = useMemo(() => {
+    if (!isOpen) return null;
+    try {
+      return { rows: mergeRows(spec, datasets).length, error: null };
+    } catch (err) {
+      return { rows: 0, error: (err as Error).message };
+    }
+  }, [isOpen, datasets, JSON.stringify(spec)]);
+
+  const mismatched = useMemo(() =>
+    kind === 'append' ? getMismatchedColumns(datasets.filter(d => appendIds.includes(d.id))) : [],
+    [kind, datasets, appendIds]
+  );
+
+  if (!isOpen) return null;
+
+  const updateKey = (index: number, side: 'left' | 'right', col: string) => {
+    setKeys(prev => prev.map((k, i) => i === index ? { ...k, [side]: col } : k));
+  };
+
+  const toggleAppend = (id: string) => {
+    setAppendIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = () => {
+    if (outcome?.error) return alert("无法合并：" + outcome.error);
+    if (outcome?.rows === 0) return alert("合并结果为空，请检查关联字段");
+    onMerge(name.trim() || defaultName, spec);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <h2 className="text-xl font-bold text-gray-800">合并数据源</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20}/></button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto custom-scrollbar flex-1 min-h-0 pr-1">
+          <div>
+            <div className="grid grid-cols-4 gap-1 bg-gray-100 p-1 rounded-lg">
+              {(Object.keys(MERGE_KIND_LABELS) as MergeKind[]).map(k => (
+                <button
+                  key={k}
+                  onClick={() => setKind(k)}
+                  className={cn(
+                    "py-1.5 text-sm rounded-md transition-colors",
+                    kind === k ? "bg-white text-blue-600 shadow-sm font-medium" : "text-gray-500 hover:text-gray-700"
+                  )}
+                >
+                  {MERGE_KIND_LABELS[k]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1.5">{KIND_HINTS[kind]}</p>
+          </div>
+
+          {kind === 'append' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">选择要拼接的数据源 (按列表顺序)</label>
+              <div className="border border-gray-200 rounded-lg max-h-48 overflow-y-auto custom-scrollbar p-1 space-y-0.5">
+                {datasets.map(ds => (
+                  <div key={ds.id} onClick={() => toggleAppend(ds.id)} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50 cursor-pointer select-none text-sm">
+                    {appendIds.includes(ds.id) ? <CheckSquare size={16} className="text-blue-600"/> : <Square size={16} className="text-gray-400"/>}
+                    <span className="truncate flex-1" title={ds.name}>{ds.name}</span>
+                    <span className="text-[10px] text-gray-400">{ds.rows.length} 行</span>
+                  </div>
+                ))}
+              </div>
+              {mismatched.length > 0 && (
+                <p className="flex items-start gap-1 text-xs text-amber-600 mt-1.5">
+                  <AlertTriangle size={12} className="flex-shrink-0 mt-0.5"/>
+                  <span>以下字段并非所有文件都有，缺少的行将留空：{mismatched.join('、')}</span>
+                </p>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700 mt-2 select-none cursor-pointer">
+                <input type="checkbox" checked={addSourceColumn} onChange={(e) => setAddSourceColumn(e.target.checked)} className="rounded text-blue-600"/>
+                添加“{DEFAULT_SOURCE_COLUMN}”字段，记录每行来自哪个数据源
+              </label>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">左表</label>
+                  <select value={leftId} onChange={(e) => setLeftId(e.target.value)} className={selectClass}>
+                    {datasets.map(ds => <option key={ds.id} value={ds.id}>{ds.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">右表</label>
+                  <select value={rightId} onChange={(e) => setRightId(e.target.value)} className={selectClass}>
+                    {datasets.map(ds => <option key={ds.id} value={ds.id}>{ds.name}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">关联字段</label>
+                <div className="space-y-1.5">
+                  {keys.map((k, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <select value={k.left} onChange={(e) => updateKey(i, 'left', e.target.value)} className={selectClass}>
+                        {left?.columns.map(col => <option key={col} value={col}>{col}</option>)}
+                      </select>
+                      <span className="text-gray-400">=</span>
+                      <select value={k.right} onChange={(e) => updateKey(i, 'right', e.target.value)} className={selectClass}>
+                        {right?.columns.map(col => <option key={col} value={col}>{col}</option>)}
+                      </select>
+                      <button
+                        onClick={() => setKeys(prev => prev.filter((_k, idx) => idx !== i))}
+                        disabled={keys.length === 1}
+                        className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                        title="移除"
+                      >
+                        <Trash2 size={14}/>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setKeys(prev => [...prev, { left: left?.columns[0] || '', right: right?.columns[0] || '' }])}
+                  className="mt-1.5 flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                >
+                  <Plus size={12}/> 添加关联字段
+                </button>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">新数据源名称</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={defaultName}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-shadow"
+            />
+          </div>
+
+          <p className={cn("text-xs", outcome?.error ? "text-red-500" : "text-gray-500")}>
+            {outcome?.error ? outcome.error : `合并结果 ${outcome?.rows ?? 0} 行；源数据重新导入后可一键重新生成`}
+          </p>
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={!!outcome?.error}
+          className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-semibold rounded-lg shadow transition-colors mt-4 active:scale-[0.99] transform flex items-center justify-center gap-2 flex-shrink-0"
+        >
+          <GitMerge size={16} /> 创建合并数据源
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { ColumnType } from '../lib/data';
+import { Slicer, SlicerKind, DatePreset, MissingColumnMode } from '../lib/board';
+import { DATE_PRESET_LABELS, ValueCount, resolveDateRange } from '../lib/filters';
+import { cn } from '../lib/utils';
+import ValuePicker from './ValuePicker';
+
+interface SlicerEditorProps {
+  columnType: ColumnType;
+  slicer?: Slicer;
+  values: ValueCount[];                      // Candidates for the value list
+  bounds?: { min: number; max: number } | null; // Numeric range of the column
+  listHeight?: number;
+  missingDatasets?: string[];                // Names of the datasets in scope that lack the column
+  onChange: (slicer: Slicer | undefined) => void;
+}
+
+const KIND_LABELS: { [k in SlicerKind]: string } = {
+  values: '按值',
+  range: '范围',
+  date: '日期范围'
+};
+
+// Numeric and date columns default to a range; they can still be switched to a value list
+const getDefaultKind = (columnType: ColumnType): SlicerKind =>
+  columnType === 'numeric' ? 'range' : columnType === 'date' ? 'date' : 'values';
+
+const inputClass = "min-w-0 w-full text-xs border border-gray-200 rounded px-1.5 py-0.5 bg-white outline-none focus:border-blue-300";
+
+const RangeEditor: React.FC<{ slicer?: Slicer; bounds?: SlicerEditorProps['bounds']; onChange: SlicerEditorProps['onChange'] }> = ({ slicer, bounds, onChange }) => {
+  const current = slicer?.kind === 'range' ? slicer : { kind: 'range' as const };
+  const step = bounds && bounds.max > bounds.min ? (bounds.max - bounds.min) / 100 : 1;
+
+  const update = (key: 'min' | 'max', raw: string) => {
+    const next = { ...current, [key]: raw === '' || isNaN(Number(raw)) ? undefined : Number(raw) };
+    onChange(next.min === undefined && next.max === undefined ? undefined : next);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1">
+        <input type="number" value={current.min ?? ''} placeholder={bounds ? String(bounds.min) : '最小'} onChange={(e) => update('min', e.target.value)} className={inputClass}/>
+        <span className="text-gray-400 text-xs">~</span>
+        <input type="number" value={current.max ?? ''} placeholder={bounds ? String(bounds.max) : '最大'} onChange={(e) => update('max', e.target.value)} className={inputClass}/>
+      </div>
+      {bounds && bounds.max > bounds.min && (
+        <div className="space-y-0.5">
+          <input
+            type="range" min={bounds.min} max={bounds.max} step={step}
+            value={current.min ?? bounds.min}
+            onChange={(e) => {
+              // A thumb stops at the other one
+              const value = Math.min(Number(e.target.value), current.max ?? bounds.max);
+              update('min', value <= bounds.min ? '' : String(value));
+            }}
+            className="w-full h-1 accent-blue-500"
+            title="最小值"
+          />
+          <input
+            type="range" min={bounds.min} max={bounds.max} step={step}
+            value={current.max ?? bounds.max}
+            onChange={(e) => {
+              const value = Math.max(Number(e.target.value), current.min ?? bounds.min);
+              update('max', value >= bounds.max ? '' : String(value));
+            }}
+            className="w-full h-1 accent-blue-500"
+            title="最大值"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DateEditor: React.FC<{ slicer?: Slicer; onChange: SlicerEditorProps['onChange'] }> = ({ slicer, onChange }) => {
+  const current = slicer?.kind === 'date' ? slicer : { kind: 'date' as const };
+  // A preset shows the dates it currently resolves to, read-only
+  const shown = resolveDateRange(current);
+
+  const update = (change: { preset?: DatePreset; from?: string; to?: string }) => {
+    const next = { ...current, ...change };
+    onChange(next.preset || next.from || next.to ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <select
+        value={current.preset || ''}
+        onChange={(e) => update({ preset: (e.target.value || undefined) as DatePreset | undefined, from: undefined, to: undefined })}
+        className={inputClass}
+      >
+        <option value="">自定义</option>
+        {(Object.keys(DATE_PRESET_LABELS) as DatePreset[]).map(p => <option key={p} value={p}>{DATE_PRESET_LABELS[p]}</option>)}
+      </select>
+      <div className="flex items-center gap-1">
+        <input type="date" value={shown.from || ''} disabled={!!current.preset} onChange={(e) => update({ from: e.target.value || undefined })} className={cn(inputClass, "disabled:text-gray-400")}/>
+        <span className="text-gray-400 text-xs">~</span>
+        <input type="date" value={shown.to || ''} disabled={!!current.preset} onChange={(e) => update({ to: e.target.value || undefined })} className={cn(inputClass, "disabled:text-gray-400")}/>
+      </div>
+    </div>
+  );
+};
+
+export default function SlicerEditor({ columnType, slicer, values, bounds, listHeight, missingDatasets = [], onChange }: SlicerEditorProps) {
+  const [kind, setKind] = useState<SlicerKind>(slicer?.kind || getDefaultKind(columnType));
+
+  useEffect(() => {
+    if (slicer) setKind(slicer.kind);
+  }, [slicer?.kind]);
+
+  const kinds: SlicerKind[] = columnType === 'numeric' ? ['range', 'values'] : columnType === 'date' ? ['date', 'values'] : ['values'];
+
+  const switchKind = (next: SlicerKind) => {
+    if (next === kind) return;
+    setKind(next);
+    // Selections of one kind mean nothing to another
+    if (slicer) onChange(undefined);
+  };
+
+  const valueSlicer = slicer?.kind === 'values' ? slicer : undefined;
+  // An empty exclude-mode slicer is kept so the mode survives until values are picked
+  const updateValues = (values: string[], exclude: boolean) =>
+    onChange(values.length > 0 || exclude ? { ...valueSlicer, kind: 'values', values, exclude: exclude || undefined } : undefined);
+
+  return (
+    <div className="space-y-1.5">
+      {kinds.length > 1 && (
+        <div className="flex bg-gray-100 p-0.5 rounded text-[10px]">
+          {kinds.map(k => (
+            <button
+              key={k}
+              onClick={() => switchKind(k)}
+              className={cn(
+                "flex-1 py-0.5 rounded transition-colors",
+                kind === k ? "bg-white text-blue-600 shadow-sm" : "text-gray-500 hover:text-gray-700"
+              )}
+            >
+              {KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+      )}
+      {kind === 'range' && <RangeEditor slicer={slicer} bounds={bounds} onChange={onChange} />}
+      {kind === 'date' && <DateEditor slicer={slicer} onChange={onChange} />}
+      {kind === 'values' && (
+        <ValuePicker 
+          items={values}
+          selected={valueSlicer?.values || []}
+          exclude={!!valueSlicer?.exclude}
+          onChange={updateValues}
+          height={listHeight}
+        />
+      )}
+      {missingDatasets.length > 0 && (
+        <div className="flex items-center gap-1 text-[10px] text-gray-500" title={`没有此字段的数据源：${missingDatasets.join('、')}`}>
+          <span className="flex-shrink-0">{missingDatasets.length} 个数据源无此字段</span>
+          {slicer && <select
+            value={slicer.missing || 'ignore'}
+            onChange={(e) => onChange({ ...slicer, missing: e.target.value as MissingColumnMode })}
+            className="flex-1 min-w-0 border border-gray-200 rounded px-1 py-0.5 bg-white"
+          >
+            <option value="ignore">不筛选</option>
+            <option value="exclude">排除全部数据</option>
+          </select>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Settings, X, FileSpreadsheet, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
+import { DataRow, AggregateOperation, AGGREGATION_LABELS } from '../lib/data';
+import { TableMode, TableNumberFormat, formatTableNumber, sortRows, buildPivot, getPivotOptions } from '../lib/table';
+import { cn } from '../lib/utils';
+
+interface TableWidgetProps {
+  data: DataRow[];
+  title: string;
+  columns: string[];        // Visible columns of the widget's dataset
+  numericColumns: string[];
+  config: {
+    tableMode?: TableMode;
+    columns?: string[];     // Picked columns; empty = all
+    pageSize?: number;
+    numberFormat?: TableNumberFormat;
+    sortCol?: string;
+    sortOrder?: 'asc' | 'desc';
+    rowCol?: string;
+    pivotCol?: string;
+    valueCol?: string;
+    aggregation?: AggregateOperation;
+    showSubtotals?: boolean;
+  };
+  onRemove?: () => void;
+  onEdit?: () => void;
+  onExportData?: () => void;
+}
+
+const TableWidget: React.FC<TableWidgetProps> = ({ data, title, columns, numericColumns, config, onRemove, onEdit, onExportData }) => {
+  const mode = config.tableMode || 'detail';
+  const numberFormat = config.numberFormat || 'auto';
+  const pageSize = config.pageSize || 50;
+
+  const [sortCol, setSortCol] = useState(config.sortCol || '');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(config.sortOrder || 'asc');
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    setSortCol(config.sortCol || '');
+    setSortOrder(config.sortOrder || 'asc');
+  }, [config.sortCol, config.sortOrder]);
+
+  // Filters changed: back to the first page
+  useEffect(() => setPage(0), [data.length, pageSize]);
+
+  const visibleColumns = config.columns && config.columns.length > 0
+    ? config.columns.filter(c => columns.includes(c))
+    : columns;
+
+  const sortedRows = useMemo(
+    () => (mode === 'detail' && sortCol ? sortRows(data, sortCol, sortOrder) : data),
+    [data, mode, sortCol, sortOrder]
+  );
+
+  const pivot = useMemo(
+    () => (mode === 'pivot' && config.rowCol ? buildPivot(data, getPivotOptions(config)) : null),
+    [data, mode, config]
+  );
+
+  const toggleSort = (col: string) => {
+    if (sortCol !== col) {
+        setSortCol(col);
+        setSortOrder('asc');
+    } else if (sortOrder === 'asc') {
+        setSortOrder('desc');
+    } else {
+        setSortCol('');
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = sortedRows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const formatCell = (col: string, val: any) => numericColumns.includes(col) ? formatTableNumber(val, numberFormat) : (val ?? '');
+
+  const thClass = "sticky top-0 bg-gray-50 px-2 py-1 text-left font-semibold text-gray-600 border-b border-gray-200 whitespace-nowrap";
+  const tdClass = "px-2 py-1 border-b border-gray-100 whitespace-nowrap";
+
+  const renderDetail = () => (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr>
+          {visibleColumns.map(col => (
+            <th
+              key={col}
+              onClick={() => toggleSort(col)}
+              className={cn(thClass, "cursor-pointer select-none hover:text-blue-600", numericColumns.includes(col) && "text-right")}
+              title="点击排序"
+            >
+              <span className="inline-flex items-center gap-0.5">
+                {col}
+                {sortCol === col && (sortOrder === 'asc' ? <ArrowUp size={10}/> : <ArrowDown size={10}/>)}
+              </span>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {pageRows.map((row, idx) => (
+          <tr key={currentPage * pageSize + idx} className="hover:bg-blue-50/40">
+            {visibleColumns.map(col => (
+              <td key={col} className={cn(tdClass, "text-gray-700", numericColumns.includes(col) && "text-right tabular-nums")}>
+                {formatCell(col, row[col])}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderPivot = () => {
+    if (!pivot) return <div className="p-4 text-xs text-gray-400">请在编辑中选择行字段</div>;
+    const hasColumns = pivot.columnKeys.length > 0;
+    const showSubtotals = config.showSubtotals !== false;
+    const valueLabel = `${config.valueCol || ''} (${AGGREGATION_LABELS[config.aggregation || 'sum']})`;
+    const fmt = (val: number | undefined) => formatTableNumber(val, numberFormat);
+
+    return (
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr>
+            <th className={cn(thClass, "left-0 z-10")}>{config.rowCol}{hasColumns && ` / ${config.pivotCol}`}</th>
+            {hasColumns
+              ? pivot.columnKeys.map(key => <th key={key} className={cn(thClass, "text-right")}>{key}</th>)
+              : <th className={cn(thClass, "text-right")}>{valueLabel}</th>}
+            {hasColumns && showSubtotals && <th className={cn(thClass, "text-right bg-gray-100")}>合计</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {pivot.rowKeys.map(rowKey => (
+            <tr key={rowKey} className="hover:bg-blue-50/40">
+              <td className={cn(tdClass, "sticky left-0 bg-white font-medium text-gray-700")}>{rowKey}</td>
+              {hasColumns
+                ? pivot.columnKeys.map(key => (
+                    <td key={key} className={cn(tdClass, "text-right tabular-nums text-gray-700")}>{fmt(pivot.cells[rowKey][key])}</td>
+                  ))
+                : <td className={cn(tdClass, "text-right tabular-nums text-gray-700")}>{fmt(pivot.rowTotals[rowKey])}</td>}
+              {hasColumns && showSubtotals && (
+                <td className={cn(tdClass, "text-right tabular-nums font-semibold text-gray-800 bg-gray-50")}>{fmt(pivot.rowTotals[rowKey])}</td>
+              )}
+            </tr>
+          ))}
+          {showSubtotals && (
+            <tr className="bg-gray-50 font-semibold text-gray-800">
+              <td className={cn(tdClass, "sticky left-0 bg-gray-50")}>合计</td>
+              {hasColumns && pivot.columnKeys.map(key => (
+                <td key={key} className={cn(tdClass, "text-right tabular-nums")}>{fmt(pivot.columnTotals[key])}</td>
+              ))}
+              <td className={cn(tdClass, "text-right tabular-nums bg-gray-100")}>{fmt(pivot.grandTotal)}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden group">
+      <div className="flex items-center justify-between p-1.5 border-b border-gray-100 bg-gray-50 draggable-handle cursor-move h-7 min-h-[28px]">
+        <h3 className="font-semibold text-gray-700 text-xs truncate select-none pl-1" title={title}>{title}</h3>
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity pr-1">
+          {onExportData && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onExportData(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="p-0.5 hover:bg-gray-200 rounded text-gray-500 transition-colors"
+                title="导出数据 (Excel)"
+             >
+               <FileSpreadsheet size={11} />
+             </button>
+          )}
+          {onEdit && (
+             <button
+                onClick={(e) => { e.stopPropagation(); onEdit(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="p-0.5 hover:bg-gray-200 rounded text-gray-500 transition-colors"
+                title="编辑"
+             >
+               <Settings size={11} />
+             </button>
+          )}
+          {onRemove && (
+            <button
+                onClick={(e) => { e.stopPropagation(); onRemove(); }}
+                onMouseDown={(e) => e.stopPropagation()}
+                className="p-0.5 hover:bg-red-100 hover:text-red-500 rounded text-gray-400 transition-colors"
+                title="移除"
+            >
+              <X size={11} />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">
+        {mode === 'pivot' ? renderPivot() : renderDetail()}
+      </div>
+      {mode === 'detail' && (
+        <div className="flex items-center justify-between px-2 py-1 border-t border-gray-100 text-[10px] text-gray-500 bg-gray-50">
+          <span>共 {sortedRows.length} 行</span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-0.5 rounded hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <ChevronLeft size={12}/>
+            </button>
+            <span>{currentPage + 1} / {pageCount}</span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              className="p-0.5 rounded hover:bg-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <ChevronRight size={12}/>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TableWidget;
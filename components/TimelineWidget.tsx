@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock, AlignLeft, X } from 'lucide-react';
+import { Clock, AlignLeft, X, FileSpreadsheet } from 'lucide-react';
 
 interface TimelineWidgetProps {
   data: any[]; // Expecting raw rows
@@ -9,9 +9,10 @@ interface TimelineWidgetProps {
   };
   title: string;
   onRemove?: () => void;
+  onExportData?: () => void;
 }
 
-const TimelineWidget: React.FC<TimelineWidgetProps> = ({ data, config, title, onRemove }) => {
+const TimelineWidget: React.FC<TimelineWidgetProps> = ({ data, config, title, onRemove, onExportData }) => {
   // Sort data by date descending
   const sortedData = React.useMemo(() => {
     if (!data || !config.dateCol) return [];
@@ -29,7 +30,12 @@ const TimelineWidget: React.FC<TimelineWidgetProps> = ({ data, config, title, on
             <Clock size={14} className="text-blue-500"/>
             <h3 className="font-semibold text-gray-700 text-sm truncate select-none">{title}</h3>
          </div>
-        <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          {onExportData && (
+            <button onClick={onExportData} onMouseDown={(e) => e.stopPropagation()} className="p-1 hover:bg-gray-200 rounded text-gray-500 transition-colors" title="导出数据 (Excel)">
+              <FileSpreadsheet size={14} />
+            </button>
+          )}
           {onRemove && (
             <button onClick={onRemove} onMouseDown={(e) => e.stopPropagation()} className="p-1 hover:bg-red-100 hover:text-red-500 rounded text-gray-400 transition-colors">
               <X size={14} />
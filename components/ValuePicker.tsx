@@ -0,0 +1,114 @@
+import React, { useState, useMemo } from 'react';
+import { Search } from 'lucide-react';
+import { ValueCount } from '../lib/filters';
+import { cn } from '../lib/utils';
+
+interface ValuePickerProps {
+  items: ValueCount[];
+  selected: string[];
+  exclude: boolean;
+  onChange: (values: string[], exclude: boolean) => void;
+  height?: number; // Height of the scrolling list in px
+}
+
+const ROW_HEIGHT = 22;
+const OVERSCAN = 6;
+
+// Value list for slicers. Only the rows in view are rendered, so columns with
+// tens of thousands of distinct values stay responsive.
+export default function ValuePicker({ items, selected, exclude, onChange, height = 150 }: ValuePickerProps) {
+  const [query, setQuery] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const selectedSet = useMemo(() => new Set(selected), [selected]);
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return q ? items.filter(item => item.value.toLowerCase().includes(q)) : items;
+  }, [items, query]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(matches.length, Math.ceil((scrollTop + height) / ROW_HEIGHT) + OVERSCAN);
+  const visible = matches.slice(start, end);
+
+  const toggle = (value: string) => {
+    onChange(selectedSet.has(value) ? selected.filter(v => v !== value) : [...selected, value], exclude);
+  };
+
+  // Bulk actions apply to the values matching the search only
+  const selectAll = () => {
+    const next = new Set(selected);
+    matches.forEach(item => next.add(item.value));
+    onChange(Array.from(next), exclude);
+  };
+  const invert = () => {
+    const matched = new Set(matches.map(item => item.value));
+    const kept = selected.filter(v => !matched.has(v));
+    onChange([...kept, ...matches.filter(item => !selectedSet.has(item.value)).map(item => item.value)], exclude);
+  };
+  const clear = () => {
+    const matched = new Set(matches.map(item => item.value));
+    onChange(query ? selected.filter(v => !matched.has(v)) : [], exclude);
+  };
+
+  const actionClass = "px-1 text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline";
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search size={11} className="absolute left-1.5 top-1/2 -translate-y-1/2 text-gray-400"/>
+        <input
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setScrollTop(0); }}
+          placeholder={`搜索 ${items.length} 个值`}
+          className="w-full text-xs border border-gray-200 rounded pl-5 pr-1.5 py-0.5 bg-white outline-none focus:border-blue-300"
+        />
+      </div>
+      <div className="flex items-center justify-between text-[10px]">
+        <div className="flex items-center">
+          <button onClick={selectAll} disabled={matches.length === 0} className={actionClass}>全选</button>
+          <button onClick={invert} disabled={matches.length === 0} className={actionClass}>反选</button>
+          <button onClick={clear} disabled={selected.length === 0} className={actionClass}>清空</button>
+        </div>
+        <label className="flex items-center gap-1 text-gray-500 cursor-pointer select-none" title="筛掉所选的值，保留其余">
+          <input
+            type="checkbox"
+            checked={exclude}
+            onChange={(e) => onChange(selected, e.target.checked)}
+            className="rounded text-red-500 w-3 h-3 focus:ring-0"
+          />
+          排除所选
+        </label>
+      </div>
+      <div
+        className="overflow-y-auto custom-scrollbar relative"
+        style={{ maxHeight: height }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        {matches.length === 0 ? (
+          <div className="text-[10px] text-gray-400 px-1 py-1">无匹配的值</div>
+        ) : (
+          <div style={{ height: matches.length * ROW_HEIGHT, position: 'relative' }}>
+            {visible.map((item, idx) => (
+              <label
+                key={item.value}
+                className="absolute left-0 right-0 flex items-center gap-2 px-1 hover:bg-gray-100 cursor-pointer rounded select-none"
+                style={{ top: (start + idx) * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                <input
+                  type="checkbox"
+                  className={cn("rounded w-3 h-3 focus:ring-0", exclude ? "text-red-500" : "text-blue-500")}
+                  checked={selectedSet.has(item.value)}
+                  onChange={() => toggle(item.value)}
+                />
+                <span className={cn("flex-1 text-xs truncate", exclude && selectedSet.has(item.value) ? "text-gray-400 line-through" : "text-gray-700")} title={item.value}>
+                  {item.value}
+                </span>
+                <span className="text-[10px] text-gray-400 tabular-nums">{item.count}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Copy, Scissors, CopyPlus, ClipboardPaste, FolderInput, X } from 'lucide-react';
+import { Board } from '../lib/board';
+import { cn } from '../lib/utils';
+
+interface WidgetClipboardBarProps {
+  selectedCount: number;
+  clipboardCount: number;
+  moveTargets: Board[]; // Boards the selection can move to
+  onCopy: () => void;
+  onCut: () => void;
+  onDuplicate: () => void;
+  onMove: (boardId: string) => void;
+  onPaste: () => void;
+  onClearSelection: () => void;
+  compact?: boolean; // Icons only, for the split view headers
+}
+
+// Actions for the widgets picked on a board, and pasting copied ones into it
+export default function WidgetClipboardBar({
+  selectedCount, clipboardCount, moveTargets, onCopy, onCut, onDuplicate, onMove, onPaste, onClearSelection, compact
+}: WidgetClipboardBarProps) {
+  const [isMoveOpen, setIsMoveOpen] = useState(false);
+
+  if (selectedCount === 0 && clipboardCount === 0) return null;
+
+  const buttonClass = "p-1.5 rounded text-gray-500 hover:bg-gray-200 hover:text-blue-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="flex items-center gap-0.5 bg-gray-50 border border-gray-200 rounded-lg px-1 py-0.5">
+      {selectedCount > 0 && (
+        <>
+          {!compact && <span className="text-xs text-blue-600 font-medium px-1.5">已选 {selectedCount} 个组件</span>}
+          <button onClick={onCopy} className={buttonClass} title="复制 (Ctrl+C)"><Copy size={15}/></button>
+          <button onClick={onCut} className={buttonClass} title="剪切 (Ctrl+X)"><Scissors size={15}/></button>
+          <button onClick={onDuplicate} className={buttonClass} title="创建副本 (Ctrl+D)"><CopyPlus size={15}/></button>
+          <div className="relative">
+            <button
+              onClick={() => setIsMoveOpen(!isMoveOpen)}
+              disabled={moveTargets.length === 0}
+              className={cn(buttonClass, isMoveOpen && "bg-blue-50 text-blue-600")}
+              title={moveTargets.length === 0 ? "没有其他看板" : "移动到看板…"}
+            >
+              <FolderInput size={15}/>
+            </button>
+            {isMoveOpen && (
+              <>
+                <div className="fixed inset-0 z-30" onClick={() => setIsMoveOpen(false)}/>
+                <div className="absolute right-0 top-full mt-1 w-48 max-h-64 overflow-y-auto custom-scrollbar bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-40 animate-in fade-in">
+                  <div className="px-3 py-1 text-[10px] text-gray-400">移动到看板</div>
+                  {moveTargets.map(board => (
+                    <button
+                      key={board.id}
+                      onClick={() => { setIsMoveOpen(false); onMove(board.id); }}
+                      className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 truncate"
+                      title={board.name}
+                    >
+                      {board.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+          <button onClick={onClearSelection} className={buttonClass} title="取消选择"><X size={15}/></button>
+        </>
+      )}
+      {selectedCount > 0 && clipboardCount > 0 && <div className="h-4 w-px bg-gray-200 mx-0.5"></div>}
+      {clipboardCount > 0 && (
+        <button onClick={onPaste} className={cn(buttonClass, !compact && "flex items-center gap-1 text-xs font-medium")} title="粘贴到此看板 (Ctrl+V)">
+          <ClipboardPaste size={15}/>
+          {!compact && `粘贴 (${clipboardCount})`}
+        </button>
+      )}
+    </div>
+  );
+}
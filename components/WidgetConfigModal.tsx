@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart, LineChart, PieChart, Clock, X, Tag, Radar } from 'lucide-react';
+import { BarChart, LineChart, PieChart, Clock, X, Tag, Radar, Layers, Gauge, Table } from 'lucide-react';
+import { AggregateOperation, AGGREGATION_LABELS, CategorySort, OTHERS_CATEGORY } from '../lib/data';
+import { DateGranularity, GRANULARITY_LABELS } from '../lib/dates';
+import { KpiCompareMode } from '../lib/kpi';
+import { CrossFilterTarget, CROSS_FILTER_LABELS } from '../lib/board';
+import { TableMode, TableNumberFormat, NUMBER_FORMAT_LABELS, TABLE_PAGE_SIZES } from '../lib/table';
 
 interface WidgetConfigModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAdd: (config: any) => void;
-  columns: { numeric: string[], text: string[], date: string[] };
+  columns: { numeric: string[], text: string[], date: string[], all: string[] };
   initialConfig?: {
-      type?: 'bar' | 'line' | 'pie' | 'timeline' | 'radar';
+      type?: 'bar' | 'line' | 'pie' | 'timeline' | 'radar' | 'kpi' | 'table';
       categoryCol?: string;
       valueCol?: string;
       dateCol?: string;
@@ -15,11 +20,33 @@ interface WidgetConfigModalProps {
       title?: string;
       showLabels?: boolean;
       unit?: 'wan' | 'yi' | '';
+      aggregation?: AggregateOperation;
+      valueCols?: string[];
+      seriesCol?: string;
+      stacked?: boolean;
+      dateGranularity?: DateGranularity | '';
+      fillEmptyPeriods?: boolean;
+      sortBy?: CategorySort | '';
+      sortOrder?: 'asc' | 'desc';
+      topN?: number;
+      groupOthers?: boolean;
+      compareMode?: KpiCompareMode;
+      target?: number | '';
+      higherIsBetter?: boolean;
+      tableMode?: TableMode;
+      columns?: string[];
+      pageSize?: number;
+      numberFormat?: TableNumberFormat;
+      sortCol?: string;
+      rowCol?: string;
+      pivotCol?: string;
+      showSubtotals?: boolean;
+      crossFilter?: CrossFilterTarget;
   } | null;
 }
 
 export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, initialConfig }: WidgetConfigModalProps) {
-  const [type, setType] = useState<'bar' | 'line' | 'pie' | 'timeline' | 'radar'>('bar');
+  const [type, setType] = useState<'bar' | 'line' | 'pie' | 'timeline' | 'radar' | 'kpi' | 'table'>('bar');
   const [title, setTitle] = useState('');
   const [categoryCol, setCategoryCol] = useState('');
   const [valueCol, setValueCol] = useState('');
@@ -27,6 +54,28 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
   const [eventCol, setEventCol] = useState('');
   const [showLabels, setShowLabels] = useState(false);
   const [unit, setUnit] = useState<'wan' | 'yi' | ''>('');
+  const [aggregation, setAggregation] = useState<AggregateOperation>('sum');
+  const [extraValueCols, setExtraValueCols] = useState<string[]>([]); // Value columns after the first
+  const [seriesCol, setSeriesCol] = useState('');
+  const [stacked, setStacked] = useState(false);
+  const [dateGranularity, setDateGranularity] = useState<DateGranularity | ''>('');
+  const [fillEmptyPeriods, setFillEmptyPeriods] = useState(false);
+  const [sortBy, setSortBy] = useState<CategorySort | ''>('');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [topN, setTopN] = useState(0);
+  const [groupOthers, setGroupOthers] = useState(true);
+  const [compareMode, setCompareMode] = useState<KpiCompareMode>('none');
+  const [target, setTarget] = useState('');
+  const [higherIsBetter, setHigherIsBetter] = useState(true);
+  const [tableMode, setTableMode] = useState<TableMode>('detail');
+  const [tableColumns, setTableColumns] = useState<string[]>([]); // Empty = all columns
+  const [pageSize, setPageSize] = useState(50);
+  const [numberFormat, setNumberFormat] = useState<TableNumberFormat>('auto');
+  const [sortCol, setSortCol] = useState('');
+  const [rowCol, setRowCol] = useState('');
+  const [pivotCol, setPivotCol] = useState('');
+  const [showSubtotals, setShowSubtotals] = useState(true);
+  const [crossFilter, setCrossFilter] = useState<CrossFilterTarget>('board');
 
   // Update state when modal opens or initialConfig changes
   useEffect(() => {
@@ -40,6 +89,28 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
             setEventCol(initialConfig.eventCol || '');
             setShowLabels(initialConfig.showLabels || false);
             setUnit(initialConfig.unit || '');
+            setAggregation(initialConfig.aggregation || 'sum');
+            setExtraValueCols((initialConfig.valueCols || []).slice(1));
+            setSeriesCol(initialConfig.seriesCol || '');
+            setStacked(initialConfig.stacked || false);
+            setDateGranularity(initialConfig.dateGranularity || '');
+            setFillEmptyPeriods(initialConfig.fillEmptyPeriods || false);
+            setSortBy(initialConfig.sortBy || '');
+            setSortOrder(initialConfig.sortOrder || 'desc');
+            setTopN(initialConfig.topN || 0);
+            setGroupOthers(initialConfig.groupOthers ?? true);
+            setCompareMode(initialConfig.compareMode || 'none');
+            setTarget(initialConfig.target !== undefined ? String(initialConfig.target) : '');
+            setHigherIsBetter(initialConfig.higherIsBetter ?? true);
+            setTableMode(initialConfig.tableMode || 'detail');
+            setTableColumns(initialConfig.columns || []);
+            setPageSize(initialConfig.pageSize || 50);
+            setNumberFormat(initialConfig.numberFormat || 'auto');
+            setSortCol(initialConfig.sortCol || '');
+            setRowCol(initialConfig.rowCol || '');
+            setPivotCol(initialConfig.pivotCol || '');
+            setShowSubtotals(initialConfig.showSubtotals ?? true);
+            setCrossFilter(initialConfig.crossFilter || 'board');
         } else {
             // Default reset
             setType('bar');
@@ -50,12 +121,36 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
             setEventCol('');
             setShowLabels(false);
             setUnit('');
+            setAggregation('sum');
+            setExtraValueCols([]);
+            setSeriesCol('');
+            setStacked(false);
+            setDateGranularity('');
+            setFillEmptyPeriods(false);
+            setSortBy('');
+            setSortOrder('desc');
+            setTopN(0);
+            setGroupOthers(true);
+            setCompareMode('none');
+            setTarget('');
+            setHigherIsBetter(true);
+            setTableMode('detail');
+            setTableColumns([]);
+            setPageSize(50);
+            setNumberFormat('auto');
+            setSortCol('');
+            setRowCol('');
+            setPivotCol('');
+            setShowSubtotals(true);
+            setCrossFilter('board');
         }
     }
   }, [isOpen, initialConfig]);
 
   if (!isOpen) return null;
 
+  const isDateCategory = columns.date.includes(categoryCol);
+
   const handleSubmit = () => {
     if (!title) {
         alert("请输入标题");
@@ -71,13 +166,75 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
         }
         config.dateCol = dateCol;
         config.eventCol = eventCol;
+    } else if (type === 'kpi') {
+        if (!valueCol && aggregation !== 'count') {
+            alert("请选择数值列");
+            return;
+        }
+        if (compareMode === 'target' && (target === '' || isNaN(Number(target)))) {
+            alert("请输入有效的目标值");
+            return;
+        }
+        if (compareMode === 'previous' && !dateCol) {
+            alert("与上一周期对比需要选择时间列");
+            return;
+        }
+        config.valueCol = valueCol;
+        config.aggregation = aggregation;
+        config.compareMode = compareMode;
+        config.higherIsBetter = higherIsBetter;
+        if (compareMode === 'target') config.target = Number(target);
+        if (compareMode === 'previous') {
+            config.dateCol = dateCol;
+            config.dateGranularity = dateGranularity || 'month';
+        }
+    } else if (type === 'table') {
+        config.tableMode = tableMode;
+        config.numberFormat = numberFormat;
+        if (tableMode === 'pivot') {
+            if (!rowCol || (!valueCol && aggregation !== 'count')) {
+                alert("请选择行字段和数值列");
+                return;
+            }
+            if (pivotCol && pivotCol === rowCol) {
+                alert("行字段和列字段不能相同");
+                return;
+            }
+            config.rowCol = rowCol;
+            config.pivotCol = pivotCol;
+            config.valueCol = valueCol;
+            config.aggregation = aggregation;
+            config.showSubtotals = showSubtotals;
+        } else {
+            config.columns = tableColumns.filter(c => columns.all.includes(c));
+            config.pageSize = pageSize;
+            config.sortCol = sortCol;
+            config.sortOrder = sortOrder;
+        }
     } else {
-        if (!categoryCol || !valueCol) {
+        // Counting rows does not need a value column
+        if (!categoryCol || (!valueCol && aggregation !== 'count')) {
             alert("请选择分类列和数值列");
             return;
         }
         config.categoryCol = categoryCol;
         config.valueCol = valueCol;
+        config.aggregation = aggregation;
+        config.sortBy = sortBy;
+        config.sortOrder = sortOrder;
+        config.topN = topN > 0 ? Math.floor(topN) : 0;
+        config.groupOthers = groupOthers;
+        config.crossFilter = crossFilter;
+        if (isDateCategory) {
+            config.dateGranularity = dateGranularity;
+            config.fillEmptyPeriods = !!dateGranularity && fillEmptyPeriods;
+        }
+        // Pie charts only ever draw one series
+        if (type !== 'pie') {
+            config.valueCols = [valueCol, ...extraValueCols.filter(c => c !== valueCol)];
+            config.seriesCol = seriesCol;
+            config.stacked = type === 'bar' && stacked;
+        }
     }
     
     onAdd(config);
@@ -86,9 +243,58 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
     onClose();
   };
 
+  // Shared by chart and KPI forms
+  const aggregationSelect = (
+    <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">汇总方式</label>
+        <select 
+            value={aggregation}
+            onChange={(e) => setAggregation(e.target.value as AggregateOperation)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+        >
+            {(Object.keys(AGGREGATION_LABELS) as AggregateOperation[]).map(op => (
+                <option key={op} value={op}>{AGGREGATION_LABELS[op]}</option>
+            ))}
+        </select>
+    </div>
+  );
+
+  const unitSelector = (
+    <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">数值单位</label>
+        <div className="flex bg-gray-100 p-1 rounded-lg">
+            {[
+                { value: '', label: '默认' },
+                { value: 'wan', label: '万' },
+                { value: 'yi', label: '亿' }
+            ].map(opt => (
+                <button
+                    key={opt.value}
+                    onClick={() => setUnit(opt.value as any)}
+                    className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                        unit === opt.value 
+                            ? 'bg-white text-blue-600 shadow-sm ring-1 ring-black/5' 
+                            : 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                    }`}
+                >
+                    {opt.label}
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+
+  const valueColOptions = (
+      <>
+          <option value="">{aggregation === 'count' ? '(按行计数)' : '请选择...'}</option>
+          {/* Distinct count works on any column, the others need numbers */}
+          {(aggregation === 'distinct' || aggregation === 'count' ? columns.all : columns.numeric).map(c => <option key={c} value={c}>{c}</option>)}
+      </>
+  );
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center">
-      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 animate-in fade-in zoom-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar p-6 animate-in fade-in zoom-in duration-200">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold text-gray-800">{initialConfig ? '编辑组件' : '添加组件'}</h2>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={20}/></button>
@@ -98,13 +304,15 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
           {/* Chart Type Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">组件类型</label>
-            <div className="grid grid-cols-5 gap-2">
+            <div className="grid grid-cols-7 gap-2">
               {[
                 { id: 'bar', icon: BarChart, label: '柱状图' },
                 { id: 'line', icon: LineChart, label: '折线图' },
                 { id: 'pie', icon: PieChart, label: '饼图' },
                 { id: 'radar', icon: Radar, label: '雷达图' },
                 { id: 'timeline', icon: Clock, label: '时间轴' },
+                { id: 'kpi', icon: Gauge, label: '指标卡' },
+                { id: 'table', icon: Table, label: '表格' },
               ].map((item) => (
                 <button
                   key={item.id}
@@ -162,6 +370,240 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
                     </select>
                 </div>
              </>
+          ) : type === 'kpi' ? (
+             <>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">指标列</label>
+                        <select 
+                            value={valueCol}
+                            onChange={(e) => setValueCol(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {valueColOptions}
+                        </select>
+                    </div>
+                    {aggregationSelect}
+                </div>
+
+                {unitSelector}
+
+                {/* Comparison */}
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">对比</label>
+                    <div className="flex bg-gray-100 p-1 rounded-lg">
+                        {([['none', '不对比'], ['target', '目标值'], ['previous', '上一周期']] as [KpiCompareMode, string][]).map(([value, label]) => (
+                            <button
+                                key={value}
+                                onClick={() => setCompareMode(value)}
+                                className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                                    compareMode === value 
+                                        ? 'bg-white text-blue-600 shadow-sm ring-1 ring-black/5' 
+                                        : 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {compareMode === 'target' && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">目标值 <span className="text-xs font-normal text-gray-400">(原始数值，不受单位影响)</span></label>
+                        <input 
+                            type="number"
+                            value={target}
+                            onChange={(e) => setTarget(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                )}
+
+                {compareMode === 'previous' && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">时间列</label>
+                            <select 
+                                value={dateCol}
+                                onChange={(e) => setDateCol(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">请选择...</option>
+                                {columns.date.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">周期</label>
+                            <select 
+                                value={dateGranularity || 'month'}
+                                onChange={(e) => setDateGranularity(e.target.value as DateGranularity)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                {(Object.keys(GRANULARITY_LABELS) as DateGranularity[]).map(g => (
+                                    <option key={g} value={g}>{GRANULARITY_LABELS[g]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                )}
+
+                {compareMode !== 'none' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 select-none cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={higherIsBetter}
+                            onChange={(e) => setHigherIsBetter(e.target.checked)}
+                            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                        />
+                        数值越高越好 <span className="text-xs text-gray-400">(取消勾选则下降显示为绿色)</span>
+                    </label>
+                )}
+             </>
+          ) : type === 'table' ? (
+             <>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">表格模式</label>
+                    <div className="flex bg-gray-100 p-1 rounded-lg">
+                        {([['detail', '明细'], ['pivot', '透视']] as [TableMode, string][]).map(([value, label]) => (
+                            <button
+                                key={value}
+                                onClick={() => setTableMode(value)}
+                                className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                                    tableMode === value 
+                                        ? 'bg-white text-blue-600 shadow-sm ring-1 ring-black/5' 
+                                        : 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {tableMode === 'detail' ? (
+                    <>
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="block text-sm font-medium text-gray-700">显示列 <span className="text-xs font-normal text-gray-400">(不选则显示全部)</span></label>
+                                {tableColumns.length > 0 && (
+                                    <button onClick={() => setTableColumns([])} className="text-xs text-blue-600 hover:underline">清空</button>
+                                )}
+                            </div>
+                            <div className="max-h-32 overflow-y-auto border border-gray-200 rounded-lg p-2 grid grid-cols-2 gap-1">
+                                {columns.all.map(c => (
+                                    <label key={c} className="flex items-center gap-1.5 text-xs text-gray-700 cursor-pointer select-none min-w-0">
+                                        <input
+                                            type="checkbox"
+                                            checked={tableColumns.includes(c)}
+                                            onChange={(e) => setTableColumns(e.target.checked ? [...tableColumns, c] : tableColumns.filter(x => x !== c))}
+                                            className="rounded text-blue-600 focus:ring-blue-500 border-gray-300"
+                                        />
+                                        <span className="truncate" title={c}>{c}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">默认排序</label>
+                                <div className="flex gap-2">
+                                    <select 
+                                        value={sortCol}
+                                        onChange={(e) => setSortCol(e.target.value)}
+                                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        <option value="">原始顺序</option>
+                                        {columns.all.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                    {sortCol && (
+                                        <select 
+                                            value={sortOrder}
+                                            onChange={(e) => setSortOrder(e.target.value as 'asc' | 'desc')}
+                                            className="px-2 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            <option value="asc">升序</option>
+                                            <option value="desc">降序</option>
+                                        </select>
+                                    )}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">每页行数</label>
+                                <select 
+                                    value={pageSize}
+                                    onChange={(e) => setPageSize(Number(e.target.value))}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {TABLE_PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">行字段</label>
+                                <select 
+                                    value={rowCol}
+                                    onChange={(e) => setRowCol(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="">请选择...</option>
+                                    {columns.text.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">列字段 <span className="text-xs font-normal text-gray-400">(可选)</span></label>
+                                <select 
+                                    value={pivotCol}
+                                    onChange={(e) => setPivotCol(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="">无</option>
+                                    {columns.text.filter(c => c !== rowCol).map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">数值列</label>
+                                <select 
+                                    value={valueCol}
+                                    onChange={(e) => setValueCol(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {valueColOptions}
+                                </select>
+                            </div>
+                            {aggregationSelect}
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-gray-700 select-none cursor-pointer">
+                            <input 
+                                type="checkbox" 
+                                checked={showSubtotals}
+                                onChange={(e) => setShowSubtotals(e.target.checked)}
+                                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                            />
+                            显示小计与合计
+                        </label>
+                    </>
+                )}
+
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">数字格式</label>
+                    <select 
+                        value={numberFormat}
+                        onChange={(e) => setNumberFormat(e.target.value as TableNumberFormat)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {(Object.keys(NUMBER_FORMAT_LABELS) as TableNumberFormat[]).map(f => (
+                            <option key={f} value={f}>{NUMBER_FORMAT_LABELS[f]}</option>
+                        ))}
+                    </select>
+                </div>
+             </>
           ) : (
             <>
                 <div className="grid grid-cols-2 gap-4">
@@ -184,34 +626,166 @@ export default function WidgetConfigModal({ isOpen, onClose, onAdd, columns, ini
                           onChange={(e) => setValueCol(e.target.value)}
                           className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
                       >
-                          <option value="">请选择...</option>
-                          {columns.numeric.map(c => <option key={c} value={c}>{c}</option>)}
+                          {valueColOptions}
                       </select>
                   </div>
                 </div>
 
+                {/* Date Bucketing (only for date category columns) */}
+                {isDateCategory && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">时间粒度</label>
+                        <div className="flex bg-gray-100 p-1 rounded-lg">
+                            {([['', '原始值'], ...Object.entries(GRANULARITY_LABELS)] as [DateGranularity | '', string][]).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setDateGranularity(value)}
+                                    className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
+                                        dateGranularity === value 
+                                            ? 'bg-white text-blue-600 shadow-sm ring-1 ring-black/5' 
+                                            : 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                                    }`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {dateGranularity && (
+                            <label className="flex items-center gap-2 text-xs text-gray-600 select-none cursor-pointer mt-2">
+                                <input 
+                                    type="checkbox" 
+                                    checked={fillEmptyPeriods}
+                                    onChange={(e) => setFillEmptyPeriods(e.target.checked)}
+                                    className="w-3.5 h-3.5 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                                />
+                                无数据的时间段补零显示
+                            </label>
+                        )}
+                    </div>
+                )}
+
+                {/* Category Sorting & Top-N */}
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">分类排序</label>
+                        <div className="flex gap-1">
+                            <select 
+                                value={sortBy}
+                                onChange={(e) => setSortBy(e.target.value as CategorySort | '')}
+                                className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                            >
+                                <option value="">{isDateCategory ? '时间顺序' : '原始顺序'}</option>
+                                <option value="value">按数值</option>
+                                <option value="name">按名称</option>
+                            </select>
+                            {sortBy && (
+                                <select 
+                                    value={sortOrder}
+                                    onChange={(e) => setSortOrder(e.target.value as 'asc' | 'desc')}
+                                    className="px-2 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                                >
+                                    <option value="desc">降序</option>
+                                    <option value="asc">升序</option>
+                                </select>
+                            )}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">只显示前 N 项</label>
+                        <input 
+                            type="number"
+                            min={0}
+                            value={topN || ''}
+                            onChange={(e) => setTopN(Math.max(0, Number(e.target.value) || 0))}
+                            placeholder="全部"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                        />
+                    </div>
+                </div>
+                {topN > 0 && (
+                    <label className="flex items-center gap-2 text-xs text-gray-600 select-none cursor-pointer -mt-2">
+                        <input 
+                            type="checkbox" 
+                            checked={groupOthers}
+                            onChange={(e) => setGroupOthers(e.target.checked)}
+                            className="w-3.5 h-3.5 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                        />
+                        其余项合并为“{OTHERS_CATEGORY}”
+                    </label>
+                )}
+
+                {/* Multi-series Options */}
+                {type !== 'pie' && (
+                    <div className="space-y-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">对比数值列 <span className="text-xs font-normal text-gray-400">(可多选，每列一个系列)</span></label>
+                            <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto custom-scrollbar">
+                                {columns.numeric.filter(c => c !== valueCol).map(c => (
+                                    <button
+                                        key={c}
+                                        onClick={() => setExtraValueCols(prev => prev.includes(c) ? prev.filter(x => x !== c) : [...prev, c])}
+                                        className={`text-xs px-2 py-1 rounded border transition-colors ${
+                                            extraValueCols.includes(c)
+                                                ? 'bg-blue-50 border-blue-300 text-blue-700'
+                                                : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                                        }`}
+                                    >
+                                        {c}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4 items-end">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">系列拆分列</label>
+                                <select 
+                                    value={seriesCol}
+                                    onChange={(e) => setSeriesCol(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="">不拆分</option>
+                                    {columns.text.filter(c => c !== categoryCol).map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                            {type === 'bar' && (
+                                <label className="flex items-center gap-2 text-sm text-gray-700 select-none cursor-pointer pb-2">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={stacked}
+                                        onChange={(e) => setStacked(e.target.checked)}
+                                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 border-gray-300"
+                                    />
+                                    <Layers size={14} className="text-gray-500"/> 堆叠显示
+                                </label>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {/* Aggregation Selection */}
+                {aggregationSelect}
+
                 {/* Unit Selection */}
+                {unitSelector}
+
+                {/* Cross-filter target */}
                 <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">数值单位</label>
-                    <div className="flex bg-gray-100 p-1 rounded-lg">
-                        {[
-                            { value: '', label: '默认' },
-                            { value: 'wan', label: '万' },
-                            { value: 'yi', label: '亿' }
-                        ].map(opt => (
-                            <button
-                                key={opt.value}
-                                onClick={() => setUnit(opt.value as any)}
-                                className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${
-                                    unit === opt.value 
-                                        ? 'bg-white text-blue-600 shadow-sm ring-1 ring-black/5' 
-                                        : 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
-                                }`}
-                            >
-                                {opt.label}
-                            </button>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">点击图表筛选</label>
+                    <select 
+                        value={crossFilter}
+                        onChange={(e) => setCrossFilter(e.target.value as CrossFilterTarget)}
+                        disabled={isDateCategory && !!dateGranularity}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-400"
+                    >
+                        {(Object.keys(CROSS_FILTER_LABELS) as CrossFilterTarget[]).map(t => (
+                            <option key={t} value={t}>{CROSS_FILTER_LABELS[t]}</option>
                         ))}
-                    </div>
+                    </select>
+                    <p className="text-[10px] text-gray-400 mt-1">
+                        {isDateCategory && !!dateGranularity 
+                            ? "按周期分组的日期轴不支持点击筛选" 
+                            : "点击柱形、扇区或数据点筛选其它图表，按住 Ctrl 可多选"}
+                    </p>
                 </div>
 
                 {/* Show Labels Toggle */}
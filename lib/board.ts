@@ -0,0 +1,218 @@
+import { generateId } from './utils';
+
+// Shared board / widget types used by App, BoardGrid and the persistence layer.
+
+export interface Layout {
+  i: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  minW?: number;
+  minH?: number;
+}
+
+export interface WidgetItem {
+  i: string;
+  datasetId: string; // Link widget to specific dataset
+  type: 'bar' | 'line' | 'pie' | 'timeline' | 'radar' | 'kpi' | 'table';
+  title: string;
+  config: any;
+}
+
+export interface Board {
+  id: string;
+  name: string;
+  layout: Layout[];
+  widgets: WidgetItem[];
+  filters?: SlicerState; // Board-specific filters
+  createdAt: number;
+}
+
+// --- Slicers ---
+// A slicer restricts one column: to a list of values, a numeric range or a date range.
+// Board filters and global slicers share the same shape.
+
+export type SlicerKind = 'values' | 'range' | 'date';
+
+// What a slicer does to datasets that do not have its column at all:
+// 'ignore' leaves them unfiltered, 'exclude' filters out all of their rows
+export type MissingColumnMode = 'ignore' | 'exclude';
+
+interface SlicerBase {
+  missing?: MissingColumnMode; // Defaults to 'ignore'
+}
+
+export interface ValueSlicer extends SlicerBase {
+  kind: 'values';
+  values: string[];
+  exclude?: boolean; // Keep rows NOT matching the values
+}
+
+export interface RangeSlicer extends SlicerBase {
+  kind: 'range';
+  min?: number; // Inclusive; open-ended when omitted
+  max?: number;
+}
+
+export type DatePreset = 'last7' | 'last30' | 'last90' | 'thisMonth' | 'lastMonth' | 'thisQuarter' | 'lastQuarter' | 'thisYear' | 'lastYear';
+
+export interface DateSlicer extends SlicerBase {
+  kind: 'date';
+  preset?: DatePreset; // Relative range, resolved against today whenever rows are filtered
+  from?: string;       // yyyy-mm-dd, inclusive; used when there is no preset
+  to?: string;
+}
+
+export type Slicer = ValueSlicer | RangeSlicer | DateSlicer;
+
+export interface SlicerState {
+  [column: string]: Slicer;
+}
+
+// Global Slicer State: { [columnName]: slicer }
+export type GlobalSlicerState = SlicerState;
+
+export type SplitLayout = 'grid' | 'horizontal' | 'vertical';
+
+// Widget config keys that hold a column name, or a list of column names
+const COLUMN_CONFIG_KEYS = ['categoryCol', 'valueCol', 'dateCol', 'eventCol', 'seriesCol', 'sortCol', 'rowCol', 'pivotCol'];
+const COLUMN_LIST_CONFIG_KEYS = ['valueCols', 'columns'];
+
+// react-grid-layout reports the layout on mount and on resize of the page, not only after
+// a drag; only a real move or resize should count as a change
+export const isSameLayout = (a: Layout[], b: Layout[]) =>
+  a.length === b.length && a.every(item => {
+    const other = b.find(l => l.i === item.i);
+    return !!other && other.x === item.x && other.y === item.y && other.w === item.w && other.h === item.h;
+  });
+
+// Columns a widget needs from its dataset, used to find datasets it can be re-bound to
+export const getWidgetColumns = (widget: WidgetItem): string[] => {
+  const cols = [
+    ...COLUMN_CONFIG_KEYS.map(key => widget.config?.[key]),
+    ...COLUMN_LIST_CONFIG_KEYS.flatMap(key => widget.config?.[key] || [])
+  ].filter((col): col is string => typeof col === 'string' && col !== '');
+  return Array.from(new Set(cols));
+};
+
+// Columns a widget reads, with the config key (its role) each one sits under
+export const getWidgetColumnRoles = (widget: WidgetItem): { column: string; role: string }[] => [
+  ...COLUMN_CONFIG_KEYS.map(role => ({ column: widget.config?.[role], role })),
+  ...COLUMN_LIST_CONFIG_KEYS.flatMap(role => (widget.config?.[role] || []).map((column: string) => ({ column, role })))
+].filter(r => typeof r.column === 'string' && r.column !== '');
+
+// Points every column a widget's config names through `map`, all in one pass
+export const mapWidgetColumns = (widget: WidgetItem, map: (col: string) => string): WidgetItem => {
+  const config = { ...widget.config };
+  COLUMN_CONFIG_KEYS.forEach(key => {
+    if (typeof config[key] === 'string' && config[key] !== '') config[key] = map(config[key]);
+  });
+  COLUMN_LIST_CONFIG_KEYS.forEach(key => {
+    if (Array.isArray(config[key])) config[key] = config[key].map(map);
+  });
+  return { ...widget, config };
+};
+
+// Points a widget's config at a renamed column
+export const renameWidgetColumn = (widget: WidgetItem, from: string, to: string): WidgetItem =>
+  mapWidgetColumns(widget, col => col === from ? to : col);
+
+// Copies of widgets under fresh ids, with their layout items re-keyed to match
+export const copyWidgets = (widgets: WidgetItem[], layout: Layout[]): { widgets: WidgetItem[]; layout: Layout[] } => {
+  const ids = new Map(widgets.map(w => [w.i, generateId()] as [string, string]));
+  return {
+    widgets: widgets.map(w => ({ ...w, i: ids.get(w.i)!, config: { ...w.config } })),
+    layout: layout.filter(l => ids.has(l.i)).map(l => ({ ...l, i: ids.get(l.i)! }))
+  };
+};
+
+// Width of the board grid, in columns
+export const GRID_COLS = 12;
+
+// First position, scanning rows top to bottom and each row left to right, where a w×h item
+// overlaps nothing in the layout. Items still at y = Infinity (not yet placed by the grid)
+// are ignored; the grid's vertical compaction sorts them out.
+export const findFreeSpot = (layout: Layout[], w: number, h: number, cols = GRID_COLS): { x: number; y: number } => {
+  const placed = layout.filter(l => Number.isFinite(l.y));
+  const width = Math.min(w, cols);
+  const overlaps = (x: number, y: number) =>
+    placed.some(l => x < l.x + l.w && x + width > l.x && y < l.y + l.h && y + h > l.y);
+  const bottom = placed.reduce((max, l) => Math.max(max, l.y + l.h), 0);
+  for (let y = 0; y < bottom; y++) {
+    for (let x = 0; x + width <= cols; x++) {
+      if (!overlaps(x, y)) return { x, y };
+    }
+  }
+  return { x: 0, y: bottom };
+};
+
+// Adds copies of widgets (fresh ids, same config and size) to a board, each at the first
+// free spot left after the ones before it
+export const pasteWidgets = (board: Board, widgets: WidgetItem[], layout: Layout[]): Board => {
+  const copy = copyWidgets(widgets, layout);
+  const nextLayout = [...board.layout];
+  copy.widgets.forEach(w => {
+    const item = copy.layout.find(l => l.i === w.i) || { i: w.i, x: 0, y: 0, w: 4, h: 6, minW: 2, minH: 3 };
+    const size = { w: Math.min(item.w, GRID_COLS), h: item.h };
+    nextLayout.push({ ...item, ...size, ...findFreeSpot(nextLayout, size.w, size.h) });
+  });
+  return { ...board, widgets: [...board.widgets, ...copy.widgets], layout: nextLayout };
+};
+
+export const removeWidgets = (board: Board, ids: string[]): Board => ({
+  ...board,
+  widgets: board.widgets.filter(w => !ids.includes(w.i)),
+  layout: board.layout.filter(l => !ids.includes(l.i))
+});
+
+export const duplicateBoard = (board: Board, name: string): Board => ({
+  ...board,
+  ...copyWidgets(board.widgets, board.layout),
+  id: generateId(),
+  name,
+  filters: board.filters ? { ...board.filters } : {},
+  createdAt: Date.now()
+});
+
+// Where a click on a chart element writes its selection
+export type CrossFilterTarget = 'board' | 'global' | 'off';
+
+export const CROSS_FILTER_LABELS: { [t in CrossFilterTarget]: string } = {
+  board: '看板筛选',
+  global: '公共切片器',
+  off: '关闭'
+};
+
+// Only category charts can cross-filter. Date-bucketed axes are excluded because their
+// categories (e.g. "2024-Q1") are not cell values a slicer can match.
+export const getCrossFilterTarget = (widget: WidgetItem): CrossFilterTarget => {
+  if (!['bar', 'line', 'pie', 'radar'].includes(widget.type)) return 'off';
+  if (!widget.config?.categoryCol || widget.config.dateGranularity) return 'off';
+  return widget.config.crossFilter || 'board';
+};
+
+// Slicer sets a widget's rows are filtered by: global slicers, then board filters. A
+// cross-filtering chart skips the filter its own clicks write, so it keeps showing every
+// category and highlights the selected ones instead of collapsing to them.
+export const getWidgetSlicerSets = (
+  widget: WidgetItem,
+  slicers: SlicerState,
+  boardFilters: SlicerState | undefined,
+  crossFiltering = true
+): (SlicerState | undefined)[] => {
+  const target = crossFiltering ? getCrossFilterTarget(widget) : 'off';
+  const skipOwn = (state?: SlicerState) => {
+    if (!state) return state;
+    const { [widget.config.categoryCol]: _own, ...rest } = state;
+    return rest;
+  };
+  return [target === 'global' ? skipOwn(slicers) : slicers, target === 'board' ? skipOwn(boardFilters) : boardFilters];
+};
+
+// Plain click selects only the clicked value (or clears it if it was the sole selection);
+// Ctrl/Cmd-click toggles the value within the existing selection
+export const getNextSelection = (current: string[], value: string, additive: boolean): string[] => {
+  if (additive) return current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+  return current.length === 1 && current[0] === value ? [] : [value];
+};
@@ -1,10 +1,47 @@
-import * as XLSX from 'xlsx';
 import _ from 'lodash';
+import { collectColumns, inferColumns, coerceRows, collectOriginalValues, isEmptyValue } from './inference';
+import { DateGranularity, getValueBucket, orderBuckets } from './dates';
 
 export interface DataRow {
   [key: string]: any;
 }
 
+export type ColumnType = 'numeric' | 'date' | 'text';
+
+// Result of type inference for one column
+export interface ColumnStats {
+  type: ColumnType;
+  confidence: number;    // Share of sampled non-empty values that matched the type (0-1)
+  nullCount: number;     // Empty cells across all rows
+  serialDates?: boolean; // Date column stored as Excel serial numbers
+}
+
+// Manual schema edits, keyed by the column name in the source file so they can be
+// re-applied when the data is re-imported
+export interface ColumnOverride {
+  name?: string;       // Display / reference name replacing the source header
+  type?: ColumnType;
+  hidden?: boolean;
+  dateFormat?: string; // e.g. "dd/mm/yyyy"
+}
+
+// A column computed per row from an expression (see lib/expression.ts). Fields are
+// evaluated in order, so one may reference the fields listed before it.
+export interface CalculatedField {
+  name: string;
+  expression: string;
+}
+
+export type MergeKind = 'left' | 'inner' | 'full' | 'append';
+
+// How a derived dataset was built from other datasets (see lib/merge.ts)
+export interface MergeSpec {
+  kind: MergeKind;
+  sourceIds: string[];   // [left, right] for joins; every appended dataset, in order, for append
+  keys?: { left: string; right: string }[]; // Join key column pairs
+  sourceColumn?: string; // Append only: column recording the dataset each row came from
+}
+
 export interface Dataset {
   id: string;      // Unique ID for the dataset
   name: string;    // File name
@@ -13,88 +50,244 @@ export interface Dataset {
   numericColumns: string[];
   dateColumns: string[];
   textColumns: string[];
+  columnStats: { [column: string]: ColumnStats }; // Every column, including hidden ones
+  columnOverrides?: { [sourceColumn: string]: ColumnOverride };
+  // File cells that `rows` no longer holds exactly, by source column and row index; schema
+  // edits coerce from these (see collectOriginalValues)
+  originalValues?: { [sourceColumn: string]: { [row: number]: any } };
+  calculatedFields?: CalculatedField[];
+  derivedFrom?: MergeSpec; // Set on datasets created by merging others
+  importOptions?: ImportOptions;
+}
+
+// How a table is cut out of a sheet's cells (see lib/fileImport.ts). Saved on the
+// dataset so replacing its data can read the new file the same way.
+export interface ImportOptions {
+  headerRow: number;         // 0-based sheet row holding the (first) header row
+  headerRows: number;        // Header rows; more than one are flattened into "2024/Q1"
+  skipBottom: number;        // Rows dropped from the end, e.g. totals and footnotes
+  dropEmptyRows: boolean;
+  dropEmptyColumns: boolean; // Columns without a single value
+}
+
+// One worksheet of an imported file, parsed but not yet turned into a Dataset
+export interface ParsedSheet {
+  name: string;
+  rows: DataRow[];
+  cells?: any[][];          // Raw cell grid for Excel / CSV sheets; rows are cut from it with `options`
+  options?: ImportOptions;  // Detected options `rows` was built with
 }
 
-export const processExcelFile = async (file: File): Promise<Dataset> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary', cellDates: true });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Parse JSON
-        const jsonData: DataRow[] = XLSX.utils.sheet_to_json(worksheet, { 
-          raw: false, // Try to format dates as strings initially or handle raw
-          dateNF: 'yyyy-mm-dd' // Date format
-        });
-
-        if (jsonData.length === 0) {
-          throw new Error("Excel file is empty");
-        }
-
-        // Analyze columns
-        const sampleRow = jsonData[0];
-        const columns = Object.keys(sampleRow);
-        
-        const numericColumns: string[] = [];
-        const dateColumns: string[] = [];
-        const textColumns: string[] = [];
-
-        // Basic heuristic for column types
-        columns.forEach(col => {
-          const val = sampleRow[col];
-          const isNum = !isNaN(Number(val)) && typeof val !== 'boolean';
-          const isDate = !isNaN(Date.parse(val)) && (val.toString().includes('-') || val.toString().includes('/'));
-          
-          // Refine logic: check multiple rows if possible, but keep simple for now
-          if (isNum) numericColumns.push(col);
-          else if (isDate) dateColumns.push(col);
-          else textColumns.push(col);
-        });
-
-        resolve({
-          id: Math.random().toString(36).substring(2, 9) + Date.now().toString(36), // Generate unique ID
-          name: file.name,
-          rows: jsonData,
-          columns,
-          numericColumns,
-          dateColumns,
-          textColumns: textColumns.length > 0 ? textColumns : columns // Fallback
-        });
-      } catch (err) {
-        reject(err);
-      }
-    };
-    reader.readAsBinaryString(file);
-  });
+// Name for a dataset created from one sheet; multi-sheet workbooks get "file / sheet"
+export const getSheetDatasetName = (fileName: string, sheetName: string, sheetCount: number) => {
+  return sheetCount > 1 ? `${fileName} / ${sheetName}` : fileName;
+};
+
+export const createDataset = (name: string, jsonData: DataRow[]): Dataset => {
+  if (jsonData.length === 0) {
+    throw new Error("Sheet is empty");
+  }
+
+  // Analyze columns across all rows, then normalise values to their column type
+  const columns = collectColumns(jsonData);
+  const columnStats = inferColumns(jsonData, columns);
+  const rows = coerceRows(jsonData, columnStats);
+  const originalValues = collectOriginalValues(jsonData, rows, columns);
+
+  return {
+    id: Math.random().toString(36).substring(2, 9) + Date.now().toString(36), // Generate unique ID
+    name,
+    rows,
+    ...buildColumnLists(columnStats),
+    columnStats,
+    originalValues: Object.keys(originalValues).length > 0 ? originalValues : undefined
+  };
+};
+
+// Derives the column lists used by the UI from columnStats, leaving out hidden columns
+export const buildColumnLists = (columnStats: { [column: string]: ColumnStats }, hidden: string[] = []) => {
+  const columns = Object.keys(columnStats).filter(col => !hidden.includes(col));
+  const numericColumns = columns.filter(col => columnStats[col].type === 'numeric');
+  const dateColumns = columns.filter(col => columnStats[col].type === 'date');
+  const textColumns = columns.filter(col => columnStats[col].type === 'text');
+
+  return {
+    columns,
+    numericColumns,
+    dateColumns,
+    textColumns: textColumns.length > 0 ? textColumns : columns // Fallback
+  };
+};
+
+export const COLUMN_TYPE_LABELS: { [t in ColumnType]: string } = {
+  numeric: '数值',
+  date: '日期',
+  text: '文本'
+};
+
+export type AggregateOperation = 'sum' | 'count' | 'distinct' | 'avg' | 'min' | 'max' | 'median';
+
+export const AGGREGATION_LABELS: { [op in AggregateOperation]: string } = {
+  sum: '求和',
+  count: '计数',
+  distinct: '去重计数',
+  avg: '平均值',
+  min: '最小值',
+  max: '最大值',
+  median: '中位数'
 };
 
+// Reduce one group of rows to a single number
+export const aggregateValues = (items: DataRow[], valueCol: string, operation: AggregateOperation): number => {
+  if (operation === 'count') return items.length;
+  if (operation === 'distinct') {
+    return new Set(items.map(item => item[valueCol]).filter(v => v !== undefined && v !== null && v !== '').map(String)).size;
+  }
+  if (operation === 'sum') return _.sumBy(items, item => Number(item[valueCol]) || 0);
+
+  // avg / min / max / median only look at cells that actually hold a number
+  const values = items
+    .map(item => item[valueCol])
+    .filter(v => v !== undefined && v !== null && v !== '' && !isNaN(Number(v)))
+    .map(Number);
+  if (values.length === 0) return 0;
+
+  switch (operation) {
+    case 'avg': return _.mean(values);
+    case 'min': return _.min(values)!;
+    case 'max': return _.max(values)!;
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+  }
+};
+
+// A plotted series: `key` is the field in each chart row, `label` is shown in legend/tooltip.
+// Keys are generated (s0, s1, ...) because recharts treats dots in a dataKey as a path.
+export interface ChartSeries {
+  key: string;
+  label: string;
+}
+
+export interface ChartData {
+  rows: { name: string; [seriesKey: string]: any }[];
+  series: ChartSeries[];
+}
+
+export type CategorySort = 'value' | 'name';
+
+export interface AggregateOptions {
+  categoryCol: string;
+  valueCols: string[];
+  operation?: AggregateOperation;
+  seriesCol?: string; // Split each value column into one series per distinct value
+  dateGranularity?: DateGranularity; // Bucket a date category column by period
+  fillEmptyPeriods?: boolean;        // Add zero rows for periods without data
+  sortBy?: CategorySort;             // Unset keeps source (or chronological) order
+  sortOrder?: 'asc' | 'desc';
+  topN?: number;                     // Keep the N largest categories (0 = all)
+  groupOthers?: boolean;             // Roll the categories beyond topN into one OTHERS_KEY row
+}
+
+// Category of the rolled-up row: a key no cell value can take, so a real "其他" category
+// stays its own row; shown as OTHERS_CATEGORY
+export const OTHERS_KEY = '\u0000others';
+export const OTHERS_CATEGORY = '其他';
+
+export const getCategoryLabel = (name: any): string => name === OTHERS_KEY ? OTHERS_CATEGORY : String(name);
+
+// Stands in for empty cells in chart categories, pivots and slicer value lists
+export const BLANK_VALUE = '(空白)';
+
+// Grouping / matching key of a cell, with every kind of empty cell folded into BLANK_VALUE
+export const getValueKey = (val: any): string => isEmptyValue(val) ? BLANK_VALUE : String(val);
+
+// Chart options saved in WidgetItem.config -> aggregation options
+export const getAggregateOptions = (config: any): AggregateOptions => ({
+  categoryCol: config.categoryCol,
+  valueCols: config.valueCols?.length ? config.valueCols : [config.valueCol],
+  operation: config.aggregation || 'sum',
+  seriesCol: config.seriesCol || undefined,
+  dateGranularity: config.dateGranularity || undefined,
+  fillEmptyPeriods: config.fillEmptyPeriods || false,
+  sortBy: config.sortBy || undefined,
+  sortOrder: config.sortOrder || 'desc',
+  topN: Number(config.topN) || 0,
+  groupOthers: config.groupOthers || false
+});
+
+const round2 = (value: number) => Math.round(value * 100) / 100; // Round to 2 decimals
+
 // Aggregate data for charts
-export const aggregateData = (
-  data: DataRow[], 
-  categoryCol: string, 
-  valueCol: string, 
-  operation: 'sum' | 'count' | 'avg' = 'sum'
-) => {
-  const grouped = _.groupBy(data, categoryCol);
-  
-  return Object.keys(grouped).map(key => {
-    const items = grouped[key];
-    let value = 0;
-    
-    if (operation === 'count') {
-      value = items.length;
-    } else {
-      const sum = _.sumBy(items, item => Number(item[valueCol]) || 0);
-      value = operation === 'avg' ? sum / items.length : sum;
+export const aggregateData = (data: DataRow[], options: AggregateOptions): ChartData => {
+  const {
+    categoryCol, valueCols, operation = 'sum', seriesCol, dateGranularity, fillEmptyPeriods,
+    sortBy, sortOrder = 'desc', topN = 0, groupOthers
+  } = options;
+
+  // Date categories are grouped by period and listed in time order
+  const grouped = dateGranularity
+    ? _.groupBy(data, row => getValueBucket(row[categoryCol], dateGranularity))
+    : _.groupBy(data, row => getValueKey(row[categoryCol]));
+  const keys = dateGranularity
+    ? orderBuckets(Object.keys(grouped), dateGranularity, fillEmptyPeriods)
+    : Object.keys(grouped);
+
+  // Plain single-series chart keeps the historical { name, value } shape
+  let series: (ChartSeries & { valueCol: string; split: string | null })[];
+  if (!seriesCol && valueCols.length <= 1) {
+    series = [{ key: 'value', label: valueCols[0] || '', valueCol: valueCols[0], split: null }];
+  } else {
+    const splitValues = seriesCol
+      ? _.uniq(data.map(row => getValueKey(row[seriesCol]))).sort()
+      : [null];
+    series = [];
+    splitValues.forEach(split => {
+      valueCols.forEach(valueCol => {
+        const label = split === null ? valueCol
+          : valueCols.length > 1 ? `${split} · ${valueCol}` : split;
+        series.push({ key: `s${series.length}`, label, valueCol, split });
+      });
+    });
+  }
+
+  const buildRow = (name: string, items: DataRow[]) => {
+    const bySplit = seriesCol ? _.groupBy(items, row => getValueKey(row[seriesCol])) : null;
+    const row: ChartData['rows'][number] = { name };
+    series.forEach(s => {
+      const subset = bySplit && s.split !== null ? (bySplit[s.split] || []) : items;
+      row[s.key] = subset.length > 0 ? round2(aggregateValues(subset, s.valueCol, operation)) : 0;
+    });
+    return row;
+  };
+  // Ranking value of a category across all of its series
+  const rowTotal = (row: ChartData['rows'][number]) => _.sumBy(series, s => Number(row[s.key]) || 0);
+
+  let rows = keys.map(key => buildRow(key, grouped[key] || []));
+
+  // Top-N: rank by value; the remainder is re-aggregated from its rows (so avg/median stay correct)
+  let others: ChartData['rows'][number] | null = null;
+  if (topN > 0 && rows.length > topN) {
+    const ranked = _.orderBy(rows, rowTotal, 'desc');
+    const kept = new Set(ranked.slice(0, topN).map(r => r.name));
+    if (groupOthers) {
+      const restItems = keys.filter(key => !kept.has(key)).flatMap(key => grouped[key] || []);
+      others = buildRow(OTHERS_KEY, restItems);
     }
+    rows = rows.filter(r => kept.has(r.name));
+  }
+
+  if (sortBy === 'value') {
+    rows = _.orderBy(rows, rowTotal, sortOrder);
+  } else if (sortBy === 'name') {
+    rows = [...rows].sort((a, b) => {
+      const cmp = a.name.localeCompare(b.name, 'zh-CN', { numeric: true });
+      return sortOrder === 'asc' ? cmp : -cmp;
+    });
+  }
+  if (others) rows.push(others);
 
-    return {
-      name: key,
-      value: Math.round(value * 100) / 100 // Round to 2 decimals
-    };
-  });
-};
\ No newline at end of file
+  return { rows, series: series.map(({ key, label }) => ({ key, label })) };
+};
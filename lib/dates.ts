@@ -0,0 +1,102 @@
+import { parseDate } from './inference';
+
+// Date bucketing for time-based category axes.
+// Bucket keys are chosen so that plain string order is chronological order.
+
+export type DateGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const GRANULARITY_LABELS: { [g in DateGranularity]: string } = {
+  day: '按日',
+  week: '按周',
+  month: '按月',
+  quarter: '按季度',
+  year: '按年'
+};
+
+// Bucket for rows whose date cell is empty or unparseable; always sorted last
+export const NO_DATE_BUCKET = '(无日期)';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ISO-8601 week: weeks start on Monday, week 1 contains the first Thursday of the year
+const getIsoWeek = (date: Date) => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const day = (d.getDay() + 6) % 7; // Monday = 0
+  d.setDate(d.getDate() - day + 3); // Thursday of this week decides the year
+  const weekYear = d.getFullYear();
+  const firstThursday = new Date(weekYear, 0, 4);
+  const week = 1 + Math.round(((d.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+  return { weekYear, week };
+};
+
+export const getDateBucket = (date: Date, granularity: DateGranularity): string => {
+  const y = date.getFullYear();
+  switch (granularity) {
+    case 'day': return `${y}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    case 'week': {
+      const { weekYear, week } = getIsoWeek(date);
+      return `${weekYear}-W${pad(week)}`;
+    }
+    case 'month': return `${y}-${pad(date.getMonth() + 1)}`;
+    case 'quarter': return `${y}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+    case 'year': return `${y}`;
+  }
+};
+
+export const getValueBucket = (value: any, granularity: DateGranularity): string => {
+  const date = parseDate(value);
+  return date ? getDateBucket(date, granularity) : NO_DATE_BUCKET;
+};
+
+// First day of the period a bucket key stands for
+export const getBucketStart = (bucket: string, granularity: DateGranularity): Date | null => {
+  if (bucket === NO_DATE_BUCKET) return null;
+  const y = Number(bucket.slice(0, 4));
+  switch (granularity) {
+    case 'day': return parseDate(bucket);
+    case 'week': {
+      // Monday of ISO week 1, then step forward
+      const jan4 = new Date(y, 0, 4);
+      const monday = new Date(y, 0, 4 - ((jan4.getDay() + 6) % 7));
+      monday.setDate(monday.getDate() + (Number(bucket.slice(6)) - 1) * 7);
+      return monday;
+    }
+    case 'month': return new Date(y, Number(bucket.slice(5, 7)) - 1, 1);
+    case 'quarter': return new Date(y, (Number(bucket.slice(6)) - 1) * 3, 1);
+    case 'year': return new Date(y, 0, 1);
+  }
+};
+
+// Moves a date by a number of periods (negative = backwards)
+export const shiftPeriod = (date: Date, granularity: DateGranularity, amount: number): Date => {
+  const d = new Date(date);
+  switch (granularity) {
+    case 'day': d.setDate(d.getDate() + amount); break;
+    case 'week': d.setDate(d.getDate() + amount * 7); break;
+    case 'month': d.setMonth(d.getMonth() + amount); break;
+    case 'quarter': d.setMonth(d.getMonth() + amount * 3); break;
+    case 'year': d.setFullYear(d.getFullYear() + amount); break;
+  }
+  return d;
+};
+
+// Sorts bucket keys chronologically, optionally inserting the periods that have no rows
+export const orderBuckets = (buckets: string[], granularity: DateGranularity, fillEmpty = false): string[] => {
+  const dated = buckets.filter(b => b !== NO_DATE_BUCKET).sort();
+  const hasUndated = buckets.includes(NO_DATE_BUCKET);
+
+  let ordered = dated;
+  if (fillEmpty && dated.length > 1) {
+    ordered = [];
+    const last = dated[dated.length - 1];
+    let cursor = getBucketStart(dated[0], granularity);
+    // Guard against runaway ranges (e.g. one stray 1900 date on a daily axis)
+    while (cursor && ordered.length < 5000) {
+      const bucket = getDateBucket(cursor, granularity);
+      ordered.push(bucket);
+      if (bucket >= last) break;
+      cursor = shiftPeriod(cursor, granularity, 1);
+    }
+  }
+  return hasUndated ? [...ordered, NO_DATE_BUCKET] : ordered;
+};
@@ -0,0 +1,122 @@
+import * as XLSX from 'xlsx';
+import { Dataset, DataRow, aggregateData, getAggregateOptions, getCategoryLabel, AGGREGATION_LABELS } from './data';
+import { Board, WidgetItem, SlicerState, getWidgetSlicerSets } from './board';
+import { filterRows, describeActiveFilters } from './filters';
+import { sortRows, buildPivot, getPivotOptions } from './table';
+import { computeKpi } from './kpi';
+
+// The numbers behind widgets, written back to Excel. Each widget becomes one sheet: a header
+// block naming the board, widget, dataset and the filters applied, then the widget's table.
+
+export interface WidgetTable {
+  columns: string[];
+  rows: any[][];
+}
+
+const toTable = (columns: string[], rows: DataRow[]): WidgetTable => ({
+  columns,
+  rows: rows.map(row => columns.map(col => row[col] ?? ''))
+});
+
+// What the widget shows, as a plain table: the aggregated series of a chart, the filtered
+// rows of a timeline or detail table, the pivot grid, or a KPI's value and comparison
+export const buildWidgetTable = (widget: WidgetItem, ds: Dataset, rows: DataRow[]): WidgetTable => {
+  const config = widget.config || {};
+  switch (widget.type) {
+    case 'timeline':
+      return toTable(ds.columns, config.dateCol ? sortRows(rows, config.dateCol, 'desc') : rows);
+    case 'kpi': {
+      const result = computeKpi(rows, config);
+      const label = `${config.valueCol} (${AGGREGATION_LABELS[config.aggregation || 'sum']})`;
+      const table: WidgetTable = { columns: ['指标', label], rows: [[result.periodLabel || '当前值', result.value]] };
+      if (result.compareValue !== undefined) {
+        table.rows.push([result.comparePeriodLabel || '目标值', result.compareValue]);
+      }
+      return table;
+    }
+    case 'table': {
+      if (config.tableMode !== 'pivot') {
+        const picked = config.columns?.length ? config.columns.filter((c: string) => ds.columns.includes(c)) : ds.columns;
+        return toTable(picked, config.sortCol ? sortRows(rows, config.sortCol, config.sortOrder || 'asc') : rows);
+      }
+      if (!config.rowCol) return { columns: [], rows: [] };
+      const pivot = buildPivot(rows, getPivotOptions(config));
+      if (pivot.columnKeys.length === 0) {
+        const label = `${config.valueCol} (${AGGREGATION_LABELS[config.aggregation || 'sum']})`;
+        return { columns: [config.rowCol, label], rows: pivot.rowKeys.map(key => [key, pivot.rowTotals[key]]) };
+      }
+      return {
+        columns: [`${config.rowCol} / ${config.pivotCol}`, ...pivot.columnKeys, '合计'],
+        rows: [
+          ...pivot.rowKeys.map(key => [key, ...pivot.columnKeys.map(col => pivot.cells[key][col] ?? ''), pivot.rowTotals[key]]),
+          ['合计', ...pivot.columnKeys.map(col => pivot.columnTotals[col]), pivot.grandTotal]
+        ]
+      };
+    }
+    default: {
+      const chart = aggregateData(rows, getAggregateOptions(config));
+      return {
+        columns: [config.categoryCol, ...chart.series.map(s => s.label)],
+        rows: chart.rows.map(row => [getCategoryLabel(row.name), ...chart.series.map(s => row[s.key] ?? '')])
+      };
+    }
+  }
+};
+
+const buildWidgetSheet = (board: Board, widget: WidgetItem, ds: Dataset, slicers: SlicerState, exportedAt: string): XLSX.WorkSheet => {
+  const slicerSets = getWidgetSlicerSets(widget, slicers, board.filters);
+  const table = buildWidgetTable(widget, ds, filterRows(ds, slicerSets));
+  const filterLines = describeActiveFilters(slicerSets[0] || {}, slicerSets[1]);
+  const header = [
+    ['看板', board.name],
+    ['组件', widget.title],
+    ['数据源', ds.name],
+    ['导出时间', exportedAt],
+    ...(filterLines.length > 0 ? filterLines.map((line, i) => [i === 0 ? '筛选' : '', line]) : [['筛选', '无']])
+  ];
+  return XLSX.utils.aoa_to_sheet([...header, [], table.columns, ...table.rows]);
+};
+
+// Excel sheet names: at most 31 characters, none of : \ / ? * [ ], unique within the workbook
+const toSheetName = (title: string, taken: Set<string>) => {
+  const base = (title.replace(/[:\\/?*[\]]/g, '_').trim() || 'Sheet').slice(0, 31);
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+const workbookToBlob = (workbook: XLSX.WorkBook) =>
+  new Blob([XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+
+export const exportWidgetData = (board: Board, widget: WidgetItem, datasets: Dataset[], slicers: SlicerState): Blob => {
+  const ds = datasets.find(d => d.id === widget.datasetId);
+  if (!ds) throw new Error(`The dataset of "${widget.title}" no longer exists`);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, buildWidgetSheet(board, widget, ds, slicers, new Date().toLocaleString()), toSheetName(widget.title, new Set()));
+  return workbookToBlob(workbook);
+};
+
+// One sheet per widget, in layout order (top to bottom, left to right); widgets whose
+// dataset was deleted are left out
+export const exportBoardData = (board: Board, datasets: Dataset[], slicers: SlicerState): Blob => {
+  const position = (w: WidgetItem) => board.layout.find(l => l.i === w.i);
+  const widgets = [...board.widgets].sort((a, b) =>
+    (position(a)?.y ?? 0) - (position(b)?.y ?? 0) || (position(a)?.x ?? 0) - (position(b)?.x ?? 0)
+  );
+  const exportedAt = new Date().toLocaleString();
+  const taken = new Set<string>();
+  const workbook = XLSX.utils.book_new();
+  widgets.forEach(widget => {
+    const ds = datasets.find(d => d.id === widget.datasetId);
+    if (!ds) return;
+    XLSX.utils.book_append_sheet(workbook, buildWidgetSheet(board, widget, ds, slicers, exportedAt), toSheetName(widget.title, taken));
+  });
+  if (workbook.SheetNames.length === 0) throw new Error('The board has no widgets with data');
+  return workbookToBlob(workbook);
+};
@@ -0,0 +1,193 @@
+import { PaperSize, PAPER_POINTS, PAGE_MARGIN, buildPdf, PdfPage } from './pdf';
+
+// Board and chart export to SVG / PNG / PDF, done entirely in the browser: the board's
+// DOM is cloned into an SVG <foreignObject> together with the page's CSS, drawn onto a
+// canvas, and encoded from there.
+
+// Title and filter summary printed above the board
+export interface ExportHeader {
+  title: string;
+  lines: string[];
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif';
+const BACKGROUND = '#f8fafc';
+// Browsers refuse canvases much beyond this on a side
+const MAX_CANVAS_SIDE = 16000;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rules of every stylesheet the page can read; cross-origin sheets are skipped
+const collectCss = (): string =>
+  Array.from(document.styleSheets).map(sheet => {
+    try {
+      return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+    } catch {
+      return '';
+    }
+  }).join('\n');
+
+// Copy of the element without controls marked data-export-ignore or grid resize handles, and with form fields
+// showing their live values (cloneNode only copies the initial ones)
+const cloneForExport = (el: HTMLElement): HTMLElement => {
+  const clone = el.cloneNode(true) as HTMLElement;
+  const sourceFields = el.querySelectorAll('input, select, textarea');
+  clone.querySelectorAll('input, select, textarea').forEach((field, i) => {
+    const source = sourceFields[i];
+    if (field instanceof HTMLInputElement && source instanceof HTMLInputElement) {
+      field.setAttribute('value', source.value);
+      if (source.checked) field.setAttribute('checked', '');
+    } else if (field instanceof HTMLTextAreaElement && source instanceof HTMLTextAreaElement) {
+      field.textContent = source.value;
+    } else if (field instanceof HTMLSelectElement && source instanceof HTMLSelectElement) {
+      field.options[source.selectedIndex]?.setAttribute('selected', '');
+    }
+  });
+  clone.querySelectorAll('[data-export-ignore], .react-resizable-handle').forEach(node => node.remove());
+  return clone;
+};
+
+const HEADER_TITLE_SIZE = 18;
+const HEADER_LINE_HEIGHT = 18;
+const HEADER_PADDING = 16;
+
+const getHeaderHeight = (header?: ExportHeader) =>
+  header ? HEADER_PADDING * 2 + HEADER_TITLE_SIZE + 8 + header.lines.length * HEADER_LINE_HEIGHT : 0;
+
+const renderHeader = (header: ExportHeader) => {
+  const title = `<text x="${HEADER_PADDING}" y="${HEADER_PADDING + HEADER_TITLE_SIZE}" font-size="${HEADER_TITLE_SIZE}" font-weight="bold" fill="#1f2937">${escapeXml(header.title)}</text>`;
+  const lines = header.lines.map((line, i) =>
+    `<text x="${HEADER_PADDING}" y="${HEADER_PADDING + HEADER_TITLE_SIZE + 8 + (i + 1) * HEADER_LINE_HEIGHT - 4}" font-size="12" fill="#4b5563">${escapeXml(line)}</text>`
+  );
+  return title + lines.join('');
+};
+
+export interface BoardSnapshot {
+  svg: string;
+  width: number;
+  height: number;
+  breaks: number[]; // y positions (px) where widgets end, preferred places for page breaks
+}
+
+// Serialises the element, with an optional header band above it, into a standalone SVG
+export const renderBoardSvg = (el: HTMLElement, header?: ExportHeader): BoardSnapshot => {
+  const width = Math.ceil(el.scrollWidth);
+  const bodyHeight = Math.ceil(el.scrollHeight);
+  const headerHeight = getHeaderHeight(header);
+  const height = headerHeight + bodyHeight;
+
+  // XMLSerializer gives the wrapper its XHTML namespace, which foreignObject needs
+  const wrapper = document.createElement('div');
+  wrapper.style.width = `${width}px`;
+  wrapper.style.height = `${bodyHeight}px`;
+  wrapper.style.fontFamily = getComputedStyle(document.body).fontFamily;
+  const style = document.createElement('style');
+  style.textContent = collectCss();
+  wrapper.appendChild(style);
+  wrapper.appendChild(cloneForExport(el));
+  const body = new XMLSerializer().serializeToString(wrapper);
+
+  const top = el.getBoundingClientRect().top;
+  const breaks = Array.from(el.querySelectorAll('.react-grid-item'))
+    .map(item => Math.round(item.getBoundingClientRect().bottom - top) + headerHeight);
+
+  const svg = `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family='${FONT_FAMILY}'>`
+    + `<rect width="100%" height="100%" fill="${BACKGROUND}"/>`
+    + (header ? renderHeader(header) : '')
+    + `<foreignObject x="0" y="${headerHeight}" width="${width}" height="${bodyHeight}">${body}</foreignObject>`
+    + `</svg>`;
+  return { svg, width, height, breaks: Array.from(new Set(breaks)).sort((a, b) => a - b) };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The board could not be rendered'));
+    img.src = src;
+  });
+
+// Rasterises a snapshot at up to 2x for sharp text, within the browser's canvas limits
+const snapshotToCanvas = async (snapshot: BoardSnapshot): Promise<{ canvas: HTMLCanvasElement; scale: number }> => {
+  const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(snapshot.svg)}`);
+  const scale = Math.min(2, MAX_CANVAS_SIDE / Math.max(snapshot.width, snapshot.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(snapshot.width * scale);
+  canvas.height = Math.floor(snapshot.height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { canvas, scale };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Image encoding failed')), type, quality);
+  });
+
+export const exportBoardPng = async (el: HTMLElement, header?: ExportHeader): Promise<Blob> => {
+  const { canvas } = await snapshotToCanvas(renderBoardSvg(el, header));
+  return canvasToBlob(canvas, 'image/png');
+};
+
+// Splits the board into pages of the paper's proportions, breaking below a widget
+// where one ends in the lower half of the page, and writes them into a PDF
+export const exportBoardPdf = async (el: HTMLElement, header: ExportHeader | undefined, paper: PaperSize, landscape: boolean): Promise<Blob> => {
+  const snapshot = renderBoardSvg(el, header);
+  const { canvas, scale } = await snapshotToCanvas(snapshot);
+
+  const [shortSide, longSide] = PAPER_POINTS[paper];
+  const pageWidth = landscape ? longSide : shortSide;
+  const pageHeight = landscape ? shortSide : longSide;
+  const pxPerPoint = canvas.width / (pageWidth - PAGE_MARGIN * 2);
+  const pageHeightPx = Math.floor((pageHeight - PAGE_MARGIN * 2) * pxPerPoint);
+  const breaks = snapshot.breaks.map(y => Math.round(y * scale));
+
+  const pages: PdfPage[] = [];
+  let start = 0;
+  while (start < canvas.height) {
+    let end = Math.min(canvas.height, start + pageHeightPx);
+    if (end < canvas.height) {
+      const candidates = breaks.filter(y => y > start + pageHeightPx / 2 && y <= end);
+      if (candidates.length > 0) end = candidates[candidates.length - 1];
+    }
+    const slice = document.createElement('canvas');
+    slice.width = canvas.width;
+    slice.height = end - start;
+    const ctx = slice.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, slice.width, slice.height);
+    ctx.drawImage(canvas, 0, start, canvas.width, slice.height, 0, 0, slice.width, slice.height);
+    const jpeg = new Uint8Array(await (await canvasToBlob(slice, 'image/jpeg', 0.92)).arrayBuffer());
+    pages.push({ jpeg, width: slice.width, height: slice.height });
+    start = end;
+  }
+  return buildPdf(pages, pageWidth, pageHeight);
+};
+
+// A recharts chart as a standalone SVG file. Recharts draws with presentation
+// attributes, so the markup needs no stylesheet; HTML legends are not included.
+export const exportChartSvg = (container: HTMLElement, title: string): Blob | null => {
+  const source = container.querySelector('svg.recharts-surface');
+  if (!source) return null;
+  const chart = source.cloneNode(true) as SVGSVGElement;
+  const width = Number(source.getAttribute('width')) || source.clientWidth;
+  const height = Number(source.getAttribute('height')) || source.clientHeight;
+  const titleHeight = 28;
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height + titleHeight));
+  svg.setAttribute('viewBox', `0 0 ${width} ${height + titleHeight}`);
+  svg.setAttribute('font-family', FONT_FAMILY);
+  svg.innerHTML = `<rect width="100%" height="100%" fill="#ffffff"/><text x="8" y="19" font-size="14" font-weight="bold" fill="#374151">${escapeXml(title)}</text>`;
+  chart.setAttribute('x', '0');
+  chart.setAttribute('y', String(titleHeight));
+  svg.appendChild(chart);
+
+  return new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' });
+};
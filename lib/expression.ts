@@ -0,0 +1,412 @@
+import { DataRow } from './data';
+import { isEmptyValue, parseDate } from './inference';
+
+// A small, Excel-like expression language for calculated fields. Expressions are
+// parsed into a tree and interpreted; nothing is ever passed to eval / Function.
+//
+//   [销售额] - [成本]                      column references in square brackets
+//   IF([数量] > 100, "大单", "小单")
+//   ROUND([金额] / 10000, 2) & "万"       & joins text
+//   YEAR([下单日期]) * 100 + MONTH([下单日期])
+
+export type ExpressionValue = number | string | boolean | null;
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message}（第 ${position + 1} 个字符）`);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Node =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; op: '-' | 'NOT'; arg: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node }
+  | { type: 'call'; name: string; args: Node[]; position: number };
+
+interface Token {
+  kind: 'number' | 'string' | 'column' | 'ident' | 'op' | 'paren' | 'comma' | 'end';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '+', '-', '*', '/', '%', '&', '=', '<', '>'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new ExpressionError('数字格式有误', start);
+      tokens.push({ kind: 'number', value: match[0], position: start });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      // A doubled quote inside a string stands for the quote itself
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= source.length) throw new ExpressionError('文本缺少结束引号', start);
+        if (source[i] === ch) {
+          if (source[i + 1] === ch) {
+            value += ch;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += source[i++];
+      }
+      tokens.push({ kind: 'string', value, position: start });
+    } else if (ch === '[') {
+      const end = source.indexOf(']', i);
+      if (end < 0) throw new ExpressionError('缺少 "]"', start);
+      const name = source.slice(i + 1, end).trim();
+      if (!name) throw new ExpressionError('方括号内缺少字段名', start);
+      tokens.push({ kind: 'column', value: name, position: start });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'ident', value: match[0].toUpperCase(), position: start });
+      i += match[0].length;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: 'paren', value: ch, position: start });
+      i++;
+    } else if (ch === ',') {
+      tokens.push({ kind: 'comma', value: ch, position: start });
+      i++;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new ExpressionError(`无法识别的字符 "${ch}"`, start);
+      tokens.push({ kind: 'op', value: op, position: start });
+      i += op.length;
+    }
+  }
+  tokens.push({ kind: 'end', value: '', position: source.length });
+  return tokens;
+};
+
+// Normalised comparison operators
+const COMPARISONS: { [op: string]: string } = { '=': '=', '==': '=', '<>': '!=', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=' };
+
+// Recursive descent, lowest precedence first:
+// OR < AND < NOT < comparison < & < + - < * / % < unary minus
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isOp = (...ops: string[]) => peek().kind === 'op' && ops.includes(peek().value);
+  const isKeyword = (word: string) => peek().kind === 'ident' && peek().value === word;
+  const expect = (kind: Token['kind'], value: string) => {
+    const token = next();
+    if (token.kind !== kind || token.value !== value) {
+      throw new ExpressionError(`此处应为 "${value}"`, token.position);
+    }
+  };
+
+  const parseOr = (): Node => {
+    let left = parseAnd();
+    while (isKeyword('OR')) {
+      next();
+      left = { type: 'binary', op: 'OR', left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): Node => {
+    let left = parseNot();
+    while (isKeyword('AND')) {
+      next();
+      left = { type: 'binary', op: 'AND', left, right: parseNot() };
+    }
+    return left;
+  };
+  const parseNot = (): Node => {
+    // NOT(...) written as a function call is handled the same way
+    if (isKeyword('NOT')) {
+      next();
+      return { type: 'unary', op: 'NOT', arg: parseNot() };
+    }
+    return parseComparison();
+  };
+  const parseComparison = (): Node => {
+    const left = parseConcat();
+    if (peek().kind === 'op' && COMPARISONS[peek().value]) {
+      const op = COMPARISONS[next().value];
+      return { type: 'binary', op, left, right: parseConcat() };
+    }
+    return left;
+  };
+  const parseConcat = (): Node => {
+    let left = parseAdditive();
+    while (isOp('&')) {
+      next();
+      left = { type: 'binary', op: '&', left, right: parseAdditive() };
+    }
+    return left;
+  };
+  const parseAdditive = (): Node => {
+    let left = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const op = next().value;
+      left = { type: 'binary', op, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+  const parseMultiplicative = (): Node => {
+    let left = parseUnary();
+    while (isOp('*', '/', '%')) {
+      const op = next().value;
+      left = { type: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+  const parseUnary = (): Node => {
+    if (isOp('-')) {
+      next();
+      return { type: 'unary', op: '-', arg: parseUnary() };
+    }
+    if (isOp('+')) {
+      next();
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): Node => {
+    const token = next();
+    switch (token.kind) {
+      case 'number': return { type: 'literal', value: Number(token.value) };
+      case 'string': return { type: 'literal', value: token.value };
+      case 'column': return { type: 'column', name: token.value };
+      case 'paren':
+        if (token.value === '(') {
+          const inner = parseOr();
+          expect('paren', ')');
+          return inner;
+        }
+        break;
+      case 'ident': {
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          return { type: 'literal', value: token.value === 'TRUE' };
+        }
+        if (peek().kind !== 'paren' || peek().value !== '(') {
+          throw new ExpressionError(`未知名称 "${token.value}"，引用字段请加方括号，如 [${token.value}]`, token.position);
+        }
+        next();
+        const args: Node[] = [];
+        if (!(peek().kind === 'paren' && peek().value === ')')) {
+          args.push(parseOr());
+          while (peek().kind === 'comma') {
+            next();
+            args.push(parseOr());
+          }
+        }
+        expect('paren', ')');
+        checkArity(token.value, args.length, token.position);
+        return { type: 'call', name: token.value, args, position: token.position };
+      }
+    }
+    throw new ExpressionError(token.kind === 'end' ? '表达式不完整' : `此处不应出现 "${token.value}"`, token.position);
+  };
+
+  const tree = parseOr();
+  if (peek().kind !== 'end') {
+    throw new ExpressionError(`此处不应出现 "${peek().value}"`, peek().position);
+  }
+  return tree;
+};
+
+// --- Evaluation ---
+
+// Empty cells and failed conversions become null; arithmetic on null yields null
+const toNumber = (val: ExpressionValue): number | null => {
+  if (val === null) return null;
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  if (typeof val === 'boolean') return val ? 1 : 0;
+  const num = Number(val.replace(/,/g, ''));
+  return val.trim() !== '' && !isNaN(num) ? num : null;
+};
+
+const toText = (val: ExpressionValue): string => {
+  if (val === null) return '';
+  if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
+  return String(val);
+};
+
+const isTruthy = (val: ExpressionValue): boolean => {
+  if (typeof val === 'number') return val !== 0;
+  if (typeof val === 'string') return val !== '' && val.toUpperCase() !== 'FALSE';
+  return val === true;
+};
+
+const toDate = (val: ExpressionValue): Date | null => val === null || typeof val === 'boolean' ? null : parseDate(val);
+
+const compare = (op: string, a: ExpressionValue, b: ExpressionValue): boolean => {
+  if (a === null || b === null) {
+    // Only equality is meaningful against a blank
+    if (op === '=') return a === b;
+    if (op === '!=') return a !== b;
+    return false;
+  }
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  let diff: number;
+  if (na !== null && nb !== null && (typeof a === 'number' || typeof b === 'number')) {
+    diff = na - nb;
+  } else {
+    diff = toText(a).localeCompare(toText(b), 'zh-CN');
+  }
+  switch (op) {
+    case '=': return diff === 0;
+    case '!=': return diff !== 0;
+    case '<': return diff < 0;
+    case '<=': return diff <= 0;
+    case '>': return diff > 0;
+    default: return diff >= 0;
+  }
+};
+
+const arithmetic = (op: string, a: number, b: number): number | null => {
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    // Division by zero gives a blank rather than Infinity
+    case '/': return b === 0 ? null : a / b;
+    default: return b === 0 ? null : a % b;
+  }
+};
+
+type FunctionImpl = (args: ExpressionValue[]) => ExpressionValue;
+
+const datePart = (get: (d: Date) => number): FunctionImpl => ([val]) => {
+  const date = toDate(val);
+  return date ? get(date) : null;
+};
+
+// IF is evaluated lazily in `evaluate` and only declares its arity here
+const FUNCTIONS: { [name: string]: { min: number; max: number; impl?: FunctionImpl } } = {
+  IF: { min: 2, max: 3 },
+  ROUND: {
+    min: 1, max: 2, impl: ([v, digits]) => {
+      const num = toNumber(v);
+      if (num === null) return null;
+      const factor = Math.pow(10, toNumber(digits) ?? 0);
+      return Math.round(num * factor) / factor;
+    }
+  },
+  ABS: { min: 1, max: 1, impl: ([v]) => { const num = toNumber(v); return num === null ? null : Math.abs(num); } },
+  MIN: { min: 1, max: Infinity, impl: args => { const nums = args.map(toNumber).filter((n): n is number => n !== null); return nums.length ? Math.min(...nums) : null; } },
+  MAX: { min: 1, max: Infinity, impl: args => { const nums = args.map(toNumber).filter((n): n is number => n !== null); return nums.length ? Math.max(...nums) : null; } },
+  YEAR: { min: 1, max: 1, impl: datePart(d => d.getFullYear()) },
+  QUARTER: { min: 1, max: 1, impl: datePart(d => Math.floor(d.getMonth() / 3) + 1) },
+  MONTH: { min: 1, max: 1, impl: datePart(d => d.getMonth() + 1) },
+  DAY: { min: 1, max: 1, impl: datePart(d => d.getDate()) },
+  // Monday = 1 … Sunday = 7
+  WEEKDAY: { min: 1, max: 1, impl: datePart(d => d.getDay() || 7) },
+  CONCAT: { min: 1, max: Infinity, impl: args => args.map(toText).join('') },
+  LEN: { min: 1, max: 1, impl: ([v]) => toText(v).length },
+  ISBLANK: { min: 1, max: 1, impl: ([v]) => v === null }
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+function checkArity(name: string, count: number, position: number) {
+  const fn = FUNCTIONS[name];
+  if (!fn) throw new ExpressionError(`未知函数 ${name}`, position);
+  if (count < fn.min || count > fn.max) {
+    const expected = fn.min === fn.max ? `${fn.min}` : fn.max === Infinity ? `至少 ${fn.min}` : `${fn.min}-${fn.max}`;
+    throw new ExpressionError(`${name} 需要 ${expected} 个参数`, position);
+  }
+}
+
+const evaluate = (node: Node, row: DataRow): ExpressionValue => {
+  switch (node.type) {
+    case 'literal': return node.value;
+    case 'column': {
+      const val = row[node.name];
+      if (isEmptyValue(val)) return null;
+      return typeof val === 'number' || typeof val === 'boolean' ? val : String(val);
+    }
+    case 'unary': {
+      const val = evaluate(node.arg, row);
+      if (node.op === 'NOT') return !isTruthy(val);
+      const num = toNumber(val);
+      return num === null ? null : -num;
+    }
+    case 'binary': {
+      if (node.op === 'AND') return isTruthy(evaluate(node.left, row)) && isTruthy(evaluate(node.right, row));
+      if (node.op === 'OR') return isTruthy(evaluate(node.left, row)) || isTruthy(evaluate(node.right, row));
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      if (node.op === '&') return toText(left) + toText(right);
+      if (COMPARISONS[node.op]) return compare(node.op, left, right);
+      const a = toNumber(left);
+      const b = toNumber(right);
+      return a === null || b === null ? null : arithmetic(node.op, a, b);
+    }
+    case 'call': {
+      if (node.name === 'IF') {
+        const branch = isTruthy(evaluate(node.args[0], row)) ? node.args[1] : node.args[2];
+        return branch ? evaluate(branch, row) : null;
+      }
+      return FUNCTIONS[node.name].impl!(node.args.map(arg => evaluate(arg, row)));
+    }
+  }
+};
+
+const collectColumnRefs = (node: Node, refs: Set<string>) => {
+  switch (node.type) {
+    case 'column': refs.add(node.name); break;
+    case 'unary': collectColumnRefs(node.arg, refs); break;
+    case 'binary': collectColumnRefs(node.left, refs); collectColumnRefs(node.right, refs); break;
+    case 'call': node.args.forEach(arg => collectColumnRefs(arg, refs)); break;
+  }
+};
+
+export interface CompiledExpression {
+  columns: string[]; // Columns the expression reads
+  evaluate: (row: DataRow) => ExpressionValue;
+}
+
+// Parses an expression, throwing ExpressionError on syntax errors
+export const compileExpression = (source: string): CompiledExpression => {
+  if (!source.trim()) throw new ExpressionError('表达式为空');
+  const tree = parse(source);
+  const refs = new Set<string>();
+  collectColumnRefs(tree, refs);
+  return {
+    columns: Array.from(refs),
+    evaluate: row => {
+      const val = evaluate(tree, row);
+      return typeof val === 'number' && !isFinite(val) ? null : val;
+    }
+  };
+};
+
+// Rewrites references to a renamed column, leaving string literals untouched
+export const renameExpressionColumn = (source: string, from: string, to: string): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return source;
+  }
+  let result = '';
+  let last = 0;
+  tokens.forEach(token => {
+    if (token.kind !== 'column' || token.value !== from) return;
+    const end = source.indexOf(']', token.position) + 1;
+    result += source.slice(last, token.position) + `[${to}]`;
+    last = end;
+  });
+  return result + source.slice(last);
+};
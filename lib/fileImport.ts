@@ -0,0 +1,345 @@
+import * as XLSX from 'xlsx';
+import { DataRow, ParsedSheet, ImportOptions } from './data';
+
+// File ingestion: Excel workbooks, delimited text (CSV / TSV) and JSON. Every format
+// produces ParsedSheets, so the import dialog and createDataset treat them alike.
+
+export type TextEncoding = 'utf-8' | 'gb18030' | 'utf-16le' | 'utf-16be';
+
+export const ENCODING_LABELS: { [e in TextEncoding]: string } = {
+  'utf-8': 'UTF-8',
+  'gb18030': 'GBK / GB18030',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE'
+};
+
+export const DELIMITER_LABELS: { [d: string]: string } = {
+  ',': '逗号 ,',
+  '\t': '制表符',
+  ';': '分号 ;',
+  '|': '竖线 |'
+};
+
+export interface TextImportOptions {
+  encoding: TextEncoding;
+  delimiter: string; // Ignored for JSON
+}
+
+export const DATA_FILE_ACCEPT = '.xlsx, .xls, .csv, .tsv, .txt, .json';
+
+type FileKind = 'excel' | 'delimited' | 'json';
+
+const getFileKind = (fileName: string): FileKind => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv' || ext === 'tsv' || ext === 'txt') return 'delimited';
+  if (ext === 'json') return 'json';
+  return 'excel';
+};
+
+// --- Encoding ---
+
+// A byte-order mark decides; otherwise bytes that are not valid UTF-8 are taken to be
+// GB18030, the superset of GBK that Chinese Windows software exports.
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'gb18030';
+  }
+};
+
+// TextDecoder drops a matching BOM by itself
+const decodeText = (bytes: Uint8Array, encoding: TextEncoding) => new TextDecoder(encoding).decode(bytes);
+
+// --- Delimited text ---
+
+// RFC 4180 parsing: quoted fields may hold delimiters, line breaks and "" escapes
+export const parseDelimited = (text: string, delimiter: string, maxRows = Infinity): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) endRow();
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const SNIFF_LINES = 20;
+
+// The delimiter that splits the first lines into the same number (> 1) of fields most
+// often wins; ties go to the one giving more fields.
+export const detectDelimiter = (text: string): string => {
+  let best = ',';
+  let bestScore = -1;
+  Object.keys(DELIMITER_LABELS).forEach(delimiter => {
+    const counts = parseDelimited(text, delimiter, SNIFF_LINES).map(r => r.length);
+    if (counts.length === 0) return;
+    const frequency = new Map<number, number>();
+    counts.forEach(n => frequency.set(n, (frequency.get(n) || 0) + 1));
+    const [fields, times] = Array.from(frequency).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (fields < 2) return;
+    const score = (times / counts.length) * 1000 + fields;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// --- Header rows and import options ---
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  headerRow: 0,
+  headerRows: 1,
+  skipBottom: 0,
+  dropEmptyRows: true,
+  dropEmptyColumns: true
+};
+
+const isBlankCell = (val: any) => val === undefined || val === null || String(val).trim() === '';
+
+const isNumericCell = (val: any) =>
+  typeof val === 'number' || (typeof val === 'string' && val.trim() !== '' && !isNaN(Number(val.replace(/,/g, ''))));
+
+// Share of the filled cells in a row that hold text rather than numbers
+const getTextShare = (row: any[]) => {
+  const filled = row.filter(cell => !isBlankCell(cell));
+  return filled.length === 0 ? 0 : filled.filter(cell => !isNumericCell(cell)).length / filled.length;
+};
+
+const HEADER_SCAN_ROWS = 30;
+const TOTAL_ROW_PATTERN = /^(合计|总计|小计|总和|total)/i;
+
+// True when `lower` has values under blanks of `upper` to the right of its first value,
+// the shape merged header cells leave behind
+const fillsMergedGaps = (upper: any[], lower: any[]) => {
+  const firstFilled = upper.findIndex(cell => !isBlankCell(cell));
+  return firstFilled >= 0 && lower.some((cell, i) => i > firstFilled && !isBlankCell(cell) && isBlankCell(upper[i]));
+};
+
+// Guesses where the table starts in a sheet with a title block above it. Titles and
+// notes fill a cell or two, so the header is the first row that spans most of the
+// table and is mostly text. A neighbouring row that lines up with it like merged
+// header cells (e.g. years over quarters) makes it a two-row header, and a trailing
+// totals row is skipped.
+export const detectImportOptions = (cells: any[][]): ImportOptions => {
+  const scan = cells.slice(0, HEADER_SCAN_ROWS);
+  const filled = scan.map(row => row.filter(cell => !isBlankCell(cell)).length);
+  const widest = Math.max(0, ...filled);
+
+  let headerRow = scan.findIndex((row, i) => filled[i] >= Math.max(2, widest * 0.6) && getTextShare(row) >= 0.7);
+  if (headerRow < 0) headerRow = Math.max(0, filled.findIndex(n => n > 0));
+
+  let headerRows = 1;
+  const header = cells[headerRow] || [];
+  const above = cells[headerRow - 1];
+  const below = cells[headerRow + 1];
+  // Year-like upper headers are numeric, so the row above is not held to the text test
+  if (above && filled[headerRow - 1] >= 2 && fillsMergedGaps(above, header)) {
+    headerRow -= 1;
+    headerRows = 2;
+  } else if (below && getTextShare(below) >= 0.8 && fillsMergedGaps(header, below)) {
+    headerRows = 2;
+  }
+
+  const last = cells[cells.length - 1];
+  const lastLabel = last?.find(cell => !isBlankCell(cell));
+  const skipBottom = cells.length > headerRow + headerRows + 1 && TOTAL_ROW_PATTERN.test(String(lastLabel ?? '').trim()) ? 1 : 0;
+
+  return { ...DEFAULT_IMPORT_OPTIONS, headerRow, headerRows, skipBottom };
+};
+
+// Column names from one or more header rows. Merged cells only hold their value in the
+// first cell, so upper rows carry a value rightwards over blanks: "2024", "", over
+// "Q1", "Q2" gives "2024/Q1", "2024/Q2".
+const flattenHeaders = (headerCells: any[][], width: number): string[] => {
+  const levels = headerCells.map((row, level) => {
+    const isUpper = level < headerCells.length - 1;
+    let carry = '';
+    return Array.from({ length: width }, (_v, i) => {
+      const text = isBlankCell(row[i]) ? '' : String(row[i]).trim();
+      if (!isUpper) return text;
+      if (text) carry = text;
+      return text || carry;
+    });
+  });
+  return Array.from({ length: width }, (_v, i) => {
+    const parts: string[] = [];
+    levels.forEach(level => {
+      if (level[i] && level[i] !== parts[parts.length - 1]) parts.push(level[i]);
+    });
+    return parts.join('/');
+  });
+};
+
+// Cuts the table out of a sheet's cells. Blank and repeated headers are named the way
+// sheet_to_json names them ("__EMPTY", "金额_1"), and empty cells are left out of the rows.
+export const buildSheetRows = (cells: any[][], options: ImportOptions): DataRow[] => {
+  const { headerRow, headerRows, skipBottom, dropEmptyRows, dropEmptyColumns } = options;
+  const bodyStart = headerRow + headerRows;
+  let body = cells.slice(bodyStart, Math.max(bodyStart, cells.length - skipBottom));
+  if (dropEmptyRows) body = body.filter(row => row.some(cell => !isBlankCell(cell)));
+
+  const headerCells = cells.slice(headerRow, bodyStart);
+  const width = Math.max(0, ...headerCells.map(row => row.length), ...body.map(row => row.length));
+  const seen = new Map<string, number>();
+  const headers = flattenHeaders(headerCells, width).map(name => {
+    const base = name || '__EMPTY';
+    const n = seen.get(base) || 0;
+    seen.set(base, n + 1);
+    return n === 0 ? base : `${base}_${n}`;
+  });
+  const keep = headers.map((_h, i) => !dropEmptyColumns || body.some(row => !isBlankCell(row[i])));
+
+  return body.map(cells => {
+    const row: DataRow = {};
+    cells.forEach((cell, i) => {
+      if (!keep[i] || isBlankCell(cell)) return;
+      row[headers[i]] = typeof cell === 'string' ? cell.trim() : cell;
+    });
+    return row;
+  });
+};
+
+// A sheet cut with detected options; the import dialog can re-cut it from `cells`
+const toParsedSheet = (name: string, cells: any[][]): ParsedSheet => {
+  const options = detectImportOptions(cells);
+  return { name, cells, options, rows: buildSheetRows(cells, options) };
+};
+
+// --- Excel ---
+
+// Reads every sheet of a workbook so the user can choose which ones to import
+export const readExcelWorkbook = async (file: File): Promise<ParsedSheet[]> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const data = e.target?.result;
+        const workbook = XLSX.read(data, { type: 'binary', cellDates: true });
+
+        const sheets = workbook.SheetNames.map(sheetName => {
+          const worksheet = workbook.Sheets[sheetName];
+          // Raw grid, one array per sheet row, so header rows can be chosen afterwards
+          const cells: any[][] = XLSX.utils.sheet_to_json(worksheet, {
+            header: 1,
+            raw: false, // Formatted text; dates come out as below
+            dateNF: 'yyyy-mm-dd',
+            defval: '',
+            blankrows: true
+          });
+          return toParsedSheet(sheetName, cells);
+        });
+
+        if (sheets.every(s => s.rows.length === 0)) {
+          throw new Error("Excel file is empty");
+        }
+        resolve(sheets);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsBinaryString(file);
+  });
+};
+
+// --- JSON ---
+
+// Nested objects become dotted columns ("客户.城市"); arrays are kept as JSON text
+const flattenRecord = (value: any, prefix = '', out: DataRow = {}): DataRow => {
+  Object.entries(value).forEach(([key, val]) => {
+    const col = prefix ? `${prefix}.${key}` : key;
+    if (val !== null && typeof val === 'object' && !Array.isArray(val)) flattenRecord(val, col, out);
+    else if (Array.isArray(val)) out[col] = JSON.stringify(val);
+    else if (val !== null && val !== undefined && val !== '') out[col] = val;
+  });
+  return out;
+};
+
+const isRecordArray = (val: any): val is object[] =>
+  Array.isArray(val) && val.length > 0 && val.every(item => item !== null && typeof item === 'object' && !Array.isArray(item));
+
+// A top-level array of objects is one sheet; an object holding such arrays (e.g.
+// { "orders": [...], "customers": [...] }) gives one sheet per property
+export const parseJsonSheets = (text: string, fileName: string): ParsedSheet[] => {
+  const data = JSON.parse(text);
+  if (isRecordArray(data)) return [{ name: fileName, rows: data.map(item => flattenRecord(item)) }];
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const sheets = Object.entries(data)
+      .filter(([, val]) => isRecordArray(val))
+      .map(([key, val]) => ({ name: key, rows: (val as object[]).map(item => flattenRecord(item)) }));
+    if (sheets.length > 0) return sheets;
+  }
+  throw new Error("JSON must be an array of objects");
+};
+
+// --- Entry point ---
+
+export interface ReadFileResult {
+  sheets: ParsedSheet[];
+  textOptions?: TextImportOptions; // Detected (or given) decoding, for text formats only
+}
+
+// Reads any supported data file. Text formats detect encoding and delimiter unless
+// `textOptions` overrides them, e.g. when the user corrects a wrong guess in the preview.
+export const readDataFile = async (file: File, textOptions?: TextImportOptions): Promise<ReadFileResult> => {
+  const kind = getFileKind(file.name);
+  if (kind === 'excel') return { sheets: await readExcelWorkbook(file) };
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const encoding = textOptions?.encoding || detectEncoding(bytes);
+  const text = decodeText(bytes, encoding);
+
+  if (kind === 'json') {
+    return { sheets: parseJsonSheets(text, file.name), textOptions: { encoding, delimiter: '' } };
+  }
+  // .tsv files are tab separated by definition; .csv / .txt are sniffed
+  const delimiter = textOptions?.delimiter || (file.name.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text));
+  const sheet = toParsedSheet(file.name, parseDelimited(text, delimiter));
+  if (sheet.rows.length === 0) throw new Error("File is empty");
+  return { sheets: [sheet], textOptions: { encoding, delimiter } };
+};
@@ -0,0 +1,243 @@
+import { DataRow, Dataset, ColumnType, BLANK_VALUE, getValueKey } from './data';
+import { Slicer, SlicerState, DatePreset, MissingColumnMode } from './board';
+import { parseDate } from './inference';
+import { getDateBucket, getBucketStart, shiftPeriod } from './dates';
+
+// Row filtering for global slicers and board filters.
+
+export const DATE_PRESET_LABELS: { [p in DatePreset]: string } = {
+  last7: '最近7天',
+  last30: '最近30天',
+  last90: '最近90天',
+  thisMonth: '本月',
+  lastMonth: '上月',
+  thisQuarter: '本季度',
+  lastQuarter: '上季度',
+  thisYear: '今年',
+  lastYear: '去年'
+};
+
+const toDayKey = (date: Date) => getDateBucket(date, 'day');
+
+// Last day of the period that starts at `start`
+const periodEnd = (start: Date, granularity: 'month' | 'quarter' | 'year') => {
+  const end = shiftPeriod(start, granularity, 1);
+  end.setDate(end.getDate() - 1);
+  return end;
+};
+
+const resolvePreset = (preset: DatePreset, today: Date): { from: string; to: string } => {
+  const day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const lastDays = (n: number) => ({ from: toDayKey(shiftPeriod(day, 'day', -(n - 1))), to: toDayKey(day) });
+  // Whole calendar period containing today, shifted by `offset` periods
+  const period = (granularity: 'month' | 'quarter' | 'year', offset: number) => {
+    const start = shiftPeriod(getBucketStart(getDateBucket(day, granularity), granularity)!, granularity, offset);
+    return { from: toDayKey(start), to: toDayKey(periodEnd(start, granularity)) };
+  };
+
+  switch (preset) {
+    case 'last7': return lastDays(7);
+    case 'last30': return lastDays(30);
+    case 'last90': return lastDays(90);
+    case 'thisMonth': return period('month', 0);
+    case 'lastMonth': return period('month', -1);
+    case 'thisQuarter': return period('quarter', 0);
+    case 'lastQuarter': return period('quarter', -1);
+    case 'thisYear': return period('year', 0);
+    case 'lastYear': return period('year', -1);
+  }
+};
+
+// Concrete yyyy-mm-dd bounds of a date slicer (either may be open)
+export const resolveDateRange = (slicer: { preset?: DatePreset; from?: string; to?: string }, today = new Date()) =>
+  slicer.preset ? resolvePreset(slicer.preset, today) : { from: slicer.from || undefined, to: slicer.to || undefined };
+
+// Cells are normally stored as "yyyy-mm-dd" or "yyyy-mm-dd HH:MM"; anything else goes through the parser
+const getCellDayKey = (val: any): string | null => {
+  if (typeof val === 'string' && /^\d{4}-\d{2}-\d{2}/.test(val)) return val.slice(0, 10);
+  const date = parseDate(val);
+  return date ? toDayKey(date) : null;
+};
+
+export const isSlicerActive = (slicer?: Slicer): boolean => {
+  if (!slicer) return false;
+  switch (slicer.kind) {
+    case 'values': return slicer.values.length > 0;
+    case 'range': return slicer.min !== undefined || slicer.max !== undefined;
+    case 'date': return !!(slicer.preset || slicer.from || slicer.to);
+  }
+};
+
+// Values an including value-list slicer keeps; empty for other kinds and for exclude mode
+export const getSlicerValues = (slicer?: Slicer): string[] =>
+  slicer?.kind === 'values' && !slicer.exclude ? slicer.values : [];
+
+// Short text for slicer badges, e.g. "3", "10 ~ 200", "最近30天"
+export const describeSlicer = (slicer: Slicer): string => {
+  switch (slicer.kind) {
+    case 'values': return slicer.exclude ? `排除 ${slicer.values.length}` : String(slicer.values.length);
+    case 'range': return `${slicer.min ?? ''} ~ ${slicer.max ?? ''}`;
+    case 'date': return slicer.preset ? DATE_PRESET_LABELS[slicer.preset] : `${slicer.from || ''} ~ ${slicer.to || ''}`;
+  }
+};
+
+const SUMMARY_VALUES = 5;
+
+// Readable description for reports, e.g. "华东、华北 等 7 项", "≥ 10", "本月 (2024-05-01 ~ 2024-05-31)"
+export const summarizeSlicer = (slicer: Slicer, today = new Date()): string => {
+  switch (slicer.kind) {
+    case 'values': {
+      const shown = slicer.values.slice(0, SUMMARY_VALUES).join('、');
+      const text = slicer.values.length > SUMMARY_VALUES ? `${shown} 等 ${slicer.values.length} 项` : shown;
+      return slicer.exclude ? `排除 ${text}` : text;
+    }
+    case 'range':
+      if (slicer.min !== undefined && slicer.max !== undefined) return `${slicer.min} ~ ${slicer.max}`;
+      return slicer.min !== undefined ? `≥ ${slicer.min}` : `≤ ${slicer.max}`;
+    case 'date': {
+      const { from, to } = resolveDateRange(slicer, today);
+      const range = `${from || '…'} ~ ${to || '…'}`;
+      return slicer.preset ? `${DATE_PRESET_LABELS[slicer.preset]} (${range})` : range;
+    }
+  }
+};
+
+// One line per active slicer, global ones first, for export headers
+export const describeActiveFilters = (globalSlicers: SlicerState, boardFilters?: SlicerState, today = new Date()): string[] => [
+  ...Object.entries(globalSlicers).filter(([, s]) => isSlicerActive(s)).map(([col, s]) => `公共切片器 · ${col}：${summarizeSlicer(s, today)}`),
+  ...Object.entries(boardFilters || {}).filter(([, s]) => isSlicerActive(s)).map(([col, s]) => `看板筛选 · ${col}：${summarizeSlicer(s, today)}`)
+];
+
+// Turns a slicer into a cell predicate; null when it filters nothing
+const compileSlicer = (slicer: Slicer, today: Date): ((val: any) => boolean) | null => {
+  if (!isSlicerActive(slicer)) return null;
+  switch (slicer.kind) {
+    case 'values': {
+      const selected = new Set(slicer.values);
+      return slicer.exclude ? val => !selected.has(getValueKey(val)) : val => selected.has(getValueKey(val));
+    }
+    case 'range': {
+      const { min, max } = slicer;
+      return val => {
+        if (val === null || val === '' || isNaN(Number(val))) return false;
+        const num = Number(val);
+        return (min === undefined || num >= min) && (max === undefined || num <= max);
+      };
+    }
+    case 'date': {
+      const { from, to } = resolveDateRange(slicer, today);
+      return val => {
+        const key = getCellDayKey(val);
+        return key !== null && (!from || key >= from) && (!to || key <= to);
+      };
+    }
+  }
+};
+
+// Hidden columns still hold data, so they count as present
+export const datasetHasColumn = (ds: Dataset, col: string) => col in ds.columnStats;
+
+// Keeps the dataset rows that pass every active slicer of every given set.
+// Empty cells only pass when the slicer selects them (BLANK_VALUE in a value list);
+// a slicer on a column the dataset lacks is skipped or drops every row, per its `missing` mode.
+export const filterRows = (ds: Dataset, slicerSets: (SlicerState | undefined)[], today = new Date()): DataRow[] => {
+  const predicates: [string, (val: any) => boolean][] = [];
+  for (const set of slicerSets) {
+    for (const [col, slicer] of Object.entries(set || {})) {
+      const predicate = compileSlicer(slicer, today);
+      if (!predicate) continue;
+      if (!datasetHasColumn(ds, col)) {
+        if (slicer.missing === 'exclude') return [];
+        continue;
+      }
+      predicates.push([col, predicate]);
+    }
+  }
+  if (predicates.length === 0) return ds.rows;
+
+  return ds.rows.filter(row => predicates.every(([col, predicate]) => predicate(row[col])));
+};
+
+// Active slicers whose column the dataset does not have, with what that does to it
+export const getUnappliedSlicers = (ds: Dataset, slicerSets: (SlicerState | undefined)[]): { column: string; mode: MissingColumnMode }[] =>
+  slicerSets.flatMap(set => Object.entries(set || {}))
+    .filter(([col, slicer]) => isSlicerActive(slicer) && !datasetHasColumn(ds, col))
+    .map(([column, slicer]) => ({ column, mode: slicer.missing || 'ignore' }));
+
+// Columns a slicer can be set on: every column of any dataset in scope, those more datasets
+// share first (source order otherwise)
+export const getSlicerColumns = (datasets: Dataset[]): string[] => {
+  const columns: string[] = [];
+  datasets.forEach(ds => ds.columns.forEach(col => { if (!columns.includes(col)) columns.push(col); }));
+  const coverage = (col: string) => datasets.filter(ds => datasetHasColumn(ds, col)).length;
+  return columns
+    .map((col, index) => ({ col, index, count: coverage(col) }))
+    .sort((a, b) => b.count - a.count || a.index - b.index)
+    .map(c => c.col);
+};
+
+// Names of the datasets in scope that lack the column
+export const getDatasetsMissingColumn = (datasets: Dataset[], col: string): string[] =>
+  datasets.filter(ds => !datasetHasColumn(ds, col)).map(ds => ds.name);
+
+// Slicer UI type of a column across the datasets that have it; mixed types fall back to text
+export const getSlicerColumnType = (datasets: Dataset[], col: string): ColumnType => {
+  const types = new Set(datasets.filter(d => d.columns.includes(col)).map(d => d.columnStats[col]?.type || 'text'));
+  return types.size === 1 ? Array.from(types)[0] : 'text';
+};
+
+export interface ValueCount {
+  value: string;
+  count: number; // Rows holding the value
+}
+
+// Datasets are immutable, so per-column counts can be cached on the dataset object
+const valueCountCache = new WeakMap<Dataset, Map<string, Map<string, number>>>();
+
+const getDatasetValueCounts = (ds: Dataset, col: string): Map<string, number> => {
+  let byColumn = valueCountCache.get(ds);
+  if (!byColumn) {
+    byColumn = new Map();
+    valueCountCache.set(ds, byColumn);
+  }
+  let counts = byColumn.get(col);
+  if (!counts) {
+    counts = new Map();
+    for (const row of ds.rows) {
+      const key = getValueKey(row[col]);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    byColumn.set(col, counts);
+  }
+  return counts;
+};
+
+const valueCollator = new Intl.Collator('zh-CN', { numeric: true });
+
+// Every distinct value of a column across datasets with its row count, in name order with blanks last
+export const getValueCounts = (datasets: Dataset[], col: string): ValueCount[] => {
+  const total = new Map<string, number>();
+  datasets.forEach(ds => {
+    if (!datasetHasColumn(ds, col)) return;
+    getDatasetValueCounts(ds, col).forEach((count, value) => total.set(value, (total.get(value) || 0) + count));
+  });
+  return Array.from(total, ([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value === BLANK_VALUE ? 1 : b.value === BLANK_VALUE ? -1 : valueCollator.compare(a.value, b.value));
+};
+
+// Smallest and largest number in a column across datasets, for range slider bounds
+export const getColumnBounds = (datasets: Dataset[], col: string): { min: number; max: number } | null => {
+  let min = Infinity;
+  let max = -Infinity;
+  datasets.forEach(d => {
+    if (!datasetHasColumn(d, col)) return;
+    // Distinct values are cached, so this avoids rescanning every row on each render
+    getDatasetValueCounts(d, col).forEach((_count, value) => {
+      if (value === BLANK_VALUE || isNaN(Number(value))) return;
+      const num = Number(value);
+      if (num < min) min = num;
+      if (num > max) max = num;
+    });
+  });
+  return min <= max ? { min, max } : null;
+};
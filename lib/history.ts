@@ -0,0 +1,67 @@
+import { Board, GlobalSlicerState } from './board';
+import { Dataset } from './data';
+
+// Undo / redo for the workspace. Every entry is a full snapshot of boards, datasets and
+// global slicers; datasets are immutable and shared between snapshots, so an entry costs
+// a few arrays, not a copy of the data. A dataset that was removed or rebuilt (a schema
+// change, a merge) stays reachable through the entries that still hold it, so the past is
+// also capped by how many such rows it keeps alive.
+
+export interface WorkspaceSnapshot {
+  boards: Board[];
+  datasets: Dataset[];
+  slicers: GlobalSlicerState;
+}
+
+export interface History {
+  past: WorkspaceSnapshot[];   // Oldest first
+  future: WorkspaceSnapshot[]; // Next redo first
+}
+
+export const HISTORY_LIMIT = 50;
+
+// Rows held only by the history, i.e. not by the current datasets
+export const HISTORY_ROW_LIMIT = 500000;
+
+// Changes this close together (typing in a slicer, a drag that also pushes other
+// widgets) become a single undo step
+export const HISTORY_MERGE_MS = 500;
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+// Rows of the datasets in these entries that `current` no longer shares, each array counted once
+const countRetainedRows = (entries: WorkspaceSnapshot[], current: WorkspaceSnapshot): number => {
+  const live = new Set(current.datasets.map(ds => ds.rows));
+  const retained = new Set<Dataset['rows']>();
+  entries.forEach(entry => entry.datasets.forEach(ds => { if (!live.has(ds.rows)) retained.add(ds.rows); }));
+  let count = 0;
+  retained.forEach(rows => { count += rows.length; });
+  return count;
+};
+
+// Records the state before a change; a new change makes the redo stack meaningless.
+// The oldest entries go first once either limit is passed; the last step is always kept.
+export const pushHistory = (
+  history: History, previous: WorkspaceSnapshot, current: WorkspaceSnapshot,
+  limit = HISTORY_LIMIT, rowLimit = HISTORY_ROW_LIMIT
+): History => {
+  let past = [...history.past, previous].slice(-limit);
+  while (past.length > 1 && countRetainedRows(past, current) > rowLimit) past = past.slice(1);
+  return { past, future: [] };
+};
+
+export const undoHistory = (history: History, current: WorkspaceSnapshot): { history: History; snapshot: WorkspaceSnapshot } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    snapshot: history.past[history.past.length - 1]
+  };
+};
+
+export const redoHistory = (history: History, current: WorkspaceSnapshot): { history: History; snapshot: WorkspaceSnapshot } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    snapshot: history.future[0]
+  };
+};
@@ -0,0 +1,244 @@
+import { DataRow, ColumnStats } from './data';
+
+// Column type inference and value coercion for imported sheets.
+// Types are decided from a sample of many rows, not just the first one, so a blank or
+// odd leading row no longer misclassifies the whole column.
+
+const SAMPLE_SIZE = 5000;
+// Share of non-empty sampled values that must parse for a column to get that type
+const MATCH_THRESHOLD = 0.9;
+
+// Excel serial day numbers between 1954 and 2119; only trusted when the header looks like a date
+const SERIAL_MIN = 20000;
+const SERIAL_MAX = 80000;
+const DATE_HEADER_PATTERN = /日期|时间|年月|月份|date|time|day|month|period/i;
+
+const CURRENCY_PATTERN = /[¥￥$€£]|元$|RMB|CNY|USD/gi;
+
+export const isEmptyValue = (val: any) =>
+  val === undefined || val === null || (typeof val === 'string' && val.trim() === '');
+
+// Parses plain numbers plus "1,234.5", "12.5%", "¥1,200", "(300)" style values.
+export const parseNumber = (val: any): number | null => {
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  if (typeof val !== 'string') return null;
+
+  let str = val.trim().replace(CURRENCY_PATTERN, '').replace(/\s/g, '');
+  if (str === '') return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(str)) {
+    sign = -1;
+    str = str.slice(1, -1);
+  }
+
+  let scale = 1;
+  if (str.endsWith('%')) {
+    scale = 0.01;
+    str = str.slice(0, -1);
+  }
+
+  // Thousands separators must sit on 3-digit boundaries, otherwise "1,2" would pass
+  if (str.includes(',')) {
+    if (!/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(str)) return null;
+    str = str.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(str)) return null;
+  // Leading zeros usually mean an identifier (postcode, product code), not a quantity
+  if (/^[-+]?0\d/.test(str)) return null;
+
+  const num = Number(str);
+  return Number.isFinite(num) ? sign * num * scale : null;
+};
+
+const buildDate = (y: number, m: number, d: number, hh = 0, mm = 0, ss = 0): Date | null => {
+  if (m < 1 || m > 12 || d < 1 || d > 31 || hh > 23 || mm > 59 || ss > 59) return null;
+  const date = new Date(y, m - 1, d, hh, mm, ss);
+  // Reject roll-overs such as 2024-02-31
+  return date.getMonth() === m - 1 ? date : null;
+};
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const CN_DATE = /^(\d{4})\s*年\s*(\d{1,2})\s*月(?:\s*(\d{1,2})\s*[日号])?(?:\s*(\d{1,2})\s*[:：时]\s*(\d{1,2})\s*分?)?$/;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// Parses "2024-03-05", "2024/3/5 14:30", "2024年3月5日", "2024年3月" and Excel's "3/5/24".
+export const parseDate = (val: any): Date | null => {
+  if (val instanceof Date) return isNaN(val.getTime()) ? null : val;
+  if (typeof val !== 'string') return null;
+  const str = val.trim();
+  if (str === '') return null;
+
+  let match = str.match(ISO_DATE) || str.match(CN_DATE);
+  if (match) {
+    const [, y, m, d, hh, mm, ss] = match;
+    return buildDate(Number(y), Number(m), d ? Number(d) : 1, Number(hh || 0), Number(mm || 0), Number(ss || 0));
+  }
+
+  match = str.match(US_DATE);
+  if (match) {
+    const [, m, d, y, hh, mm, ss] = match;
+    const year = y.length === 2 ? 2000 + Number(y) : Number(y);
+    return buildDate(year, Number(m), Number(d), Number(hh || 0), Number(mm || 0), Number(ss || 0));
+  }
+
+  return null;
+};
+
+// Excel stores dates as days since 1899-12-30
+export const excelSerialToDate = (serial: number): Date => {
+  const utc = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds());
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Dates are stored as "yyyy-mm-dd" (plus " HH:mm" when there is a time part)
+export const formatDate = (date: Date): string => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) return day;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const isSerialDate = (num: number) => Number.isInteger(num) && num >= SERIAL_MIN && num <= SERIAL_MAX;
+
+// Column names in first-seen order across all rows (sheet_to_json omits blank cells,
+// so the first row alone can be missing columns)
+export const collectColumns = (rows: DataRow[]): string[] => {
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => seen.add(key)));
+  return Array.from(seen);
+};
+
+const sampleValues = (values: any[]) => {
+  if (values.length <= SAMPLE_SIZE) return values;
+  const step = values.length / SAMPLE_SIZE;
+  return Array.from({ length: SAMPLE_SIZE }, (_, i) => values[Math.floor(i * step)]);
+};
+
+export const inferColumn = (rows: DataRow[], col: string): ColumnStats => {
+  const nonEmpty = rows.map(r => r[col]).filter(v => !isEmptyValue(v));
+  const nullCount = rows.length - nonEmpty.length;
+  if (nonEmpty.length === 0) {
+    return { type: 'text', confidence: 0, nullCount };
+  }
+
+  const sample = sampleValues(nonEmpty);
+  let numericCount = 0;
+  let dateCount = 0;
+  let serialCount = 0;
+  sample.forEach(val => {
+    if (typeof val === 'boolean') return;
+    const num = parseNumber(val);
+    if (num !== null) {
+      numericCount++;
+      if (isSerialDate(num)) serialCount++;
+    } else if (parseDate(val)) {
+      dateCount++;
+    }
+  });
+
+  const total = sample.length;
+  if (dateCount / total >= MATCH_THRESHOLD) {
+    return { type: 'date', confidence: dateCount / total, nullCount };
+  }
+  if (DATE_HEADER_PATTERN.test(col) && (serialCount + dateCount) / total >= MATCH_THRESHOLD) {
+    return { type: 'date', confidence: (serialCount + dateCount) / total, nullCount, serialDates: serialCount > 0 };
+  }
+  if (numericCount / total >= MATCH_THRESHOLD) {
+    return { type: 'numeric', confidence: numericCount / total, nullCount };
+  }
+  return { type: 'text', confidence: 1 - Math.max(numericCount, dateCount) / total, nullCount };
+};
+
+export const inferColumns = (rows: DataRow[], columns: string[]) => {
+  const stats: { [col: string]: ColumnStats } = {};
+  columns.forEach(col => { stats[col] = inferColumn(rows, col); });
+  return stats;
+};
+
+// Converts a cell to the canonical value for a column type. Values that do not parse are
+// kept as-is so nothing from the source file is silently lost.
+export const coerceValue = (val: any, stats: ColumnStats, dateFormat?: string) => {
+  if (isEmptyValue(val)) return val;
+  if (stats.type === 'numeric') {
+    const num = parseNumber(val);
+    return num === null ? val : num;
+  }
+  if (stats.type === 'date') {
+    if (stats.serialDates) {
+      const num = parseNumber(val);
+      if (num !== null && isSerialDate(num)) return formatDate(excelSerialToDate(num));
+    }
+    const date = dateFormat ? parseDateWithFormat(val, dateFormat) : parseDate(val);
+    return date ? formatDate(date) : val;
+  }
+  return typeof val === 'string' ? val : String(val);
+};
+
+// Whether a coerced value still carries the file's cell exactly (12 for "12", "a" for "a").
+// Parsed dates from Excel are Date objects with nothing more to them than the date itself.
+export const keepsSourceForm = (value: any, original: any) =>
+  value === original || original instanceof Date || (original != null && String(value) === String(original));
+
+// Original cells that coercion changed beyond keepsSourceForm, per column and row index
+// ("12.5%" kept for 0.125, "05/03/2024" for "2024-05-03"), so a later schema change can
+// coerce again from what the file had rather than from an earlier guess
+export const collectOriginalValues = (original: DataRow[], coerced: DataRow[], columns: string[]) => {
+  const values: { [col: string]: { [row: number]: any } } = {};
+  columns.forEach(col => {
+    const changed: { [row: number]: any } = {};
+    let count = 0;
+    coerced.forEach((row, i) => {
+      if (!keepsSourceForm(row[col], original[i][col])) {
+        changed[i] = original[i][col];
+        count++;
+      }
+    });
+    if (count > 0) values[col] = changed;
+  });
+  return values;
+};
+
+export const coerceRows = (rows: DataRow[], stats: { [col: string]: ColumnStats }): DataRow[] => {
+  const columns = Object.keys(stats);
+  return rows.map(row => {
+    const next: DataRow = { ...row };
+    columns.forEach(col => {
+      if (col in next) next[col] = coerceValue(next[col], stats[col]);
+    });
+    return next;
+  });
+};
+
+// Parses a date using an explicit pattern such as "dd/mm/yyyy" or "yyyy年m月d日".
+// Tokens: yyyy, yy, mm/m (month), dd/d (day), HH (hour), MM (minute); anything else is literal.
+export const parseDateWithFormat = (val: any, format: string): Date | null => {
+  if (typeof val !== 'string') return parseDate(val);
+  const tokens: string[] = [];
+  const pattern = format.replace(/yyyy|yy|mm|m|dd|d|HH|MM|[.*+?^${}()|[\]\\]/g, token => {
+    switch (token) {
+      case 'yyyy': tokens.push('y'); return '(\\d{4})';
+      case 'yy': tokens.push('yy'); return '(\\d{2})';
+      case 'mm': case 'm': tokens.push('m'); return '(\\d{1,2})';
+      case 'dd': case 'd': tokens.push('d'); return '(\\d{1,2})';
+      case 'HH': tokens.push('H'); return '(\\d{1,2})';
+      case 'MM': tokens.push('M'); return '(\\d{2})';
+      default: return '\\' + token;
+    }
+  });
+  // Compact formats like "yyyymmdd" need fixed-width fields
+  const compact = !/[^ymdHM]/.test(format);
+  const regex = new RegExp('^' + (compact ? pattern.replace(/\{1,2\}/g, '{2}') : pattern) + '$');
+  const match = val.trim().match(regex);
+  if (!match) return parseDate(val);
+
+  const parts: { [token: string]: number } = { y: 0, m: 1, d: 1, H: 0, M: 0 };
+  tokens.forEach((token, i) => {
+    const num = Number(match[i + 1]);
+    if (token === 'yy') parts.y = 2000 + num;
+    else parts[token] = num;
+  });
+  return buildDate(parts.y, parts.m, parts.d, parts.H, parts.M);
+};
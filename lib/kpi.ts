@@ -0,0 +1,41 @@
+import _ from 'lodash';
+import { DataRow, AggregateOperation, aggregateValues } from './data';
+import { DateGranularity, NO_DATE_BUCKET, getValueBucket, getBucketStart, getDateBucket, shiftPeriod } from './dates';
+
+// Headline figure for KPI card widgets, optionally compared to a target or to the previous period.
+
+export type KpiCompareMode = 'none' | 'target' | 'previous';
+
+export interface KpiResult {
+  value: number;
+  compareValue?: number;  // Target, or the previous period's value
+  periodLabel?: string;   // Period the value covers when comparing periods
+  comparePeriodLabel?: string;
+}
+
+export const computeKpi = (rows: DataRow[], config: any): KpiResult => {
+  const operation: AggregateOperation = config.aggregation || 'sum';
+  const compareMode: KpiCompareMode = config.compareMode || 'none';
+
+  if (compareMode === 'previous' && config.dateCol) {
+    const granularity: DateGranularity = config.dateGranularity || 'month';
+    const grouped = _.groupBy(rows, row => getValueBucket(row[config.dateCol], granularity));
+    const latest = Object.keys(grouped).filter(b => b !== NO_DATE_BUCKET).sort().pop();
+    if (!latest) return { value: 0 };
+
+    const previous = getDateBucket(shiftPeriod(getBucketStart(latest, granularity)!, granularity, -1), granularity);
+    return {
+      value: aggregateValues(grouped[latest], config.valueCol, operation),
+      compareValue: grouped[previous] ? aggregateValues(grouped[previous], config.valueCol, operation) : undefined,
+      periodLabel: latest,
+      comparePeriodLabel: previous
+    };
+  }
+
+  const value = aggregateValues(rows, config.valueCol, operation);
+  const target = Number(config.target);
+  if (compareMode === 'target' && config.target !== '' && config.target !== undefined && !isNaN(target)) {
+    return { value, compareValue: target };
+  }
+  return { value };
+};
@@ -0,0 +1,188 @@
+import { Dataset, DataRow, MergeKind, MergeSpec, createDataset, getValueKey } from './data';
+import { isEmptyValue } from './inference';
+import { reapplyDatasetSchema } from './schema';
+
+// Derived datasets built by joining two datasets on key columns or by appending the
+// rows of several. The spec is stored on the result so it can be rebuilt from its sources.
+
+export const MERGE_KIND_LABELS: { [k in MergeKind]: string } = {
+  left: '左连接',
+  inner: '内连接',
+  full: '全连接',
+  append: '追加行'
+};
+
+export const DEFAULT_SOURCE_COLUMN = '来源';
+
+// Composite key of a row; null when any key cell is empty, since blanks never match
+const getJoinKey = (row: DataRow, columns: string[]): string | null => {
+  if (columns.some(col => isEmptyValue(row[col]))) return null;
+  return columns.map(col => getValueKey(row[col])).join('\u0000');
+};
+
+// Name for a right-hand column that clashes with a left-hand one, e.g. "金额 (产品表)"
+const getUniqueName = (col: string, suffix: string, taken: Set<string>) => {
+  let name = `${col} (${suffix})`;
+  for (let i = 2; taken.has(name); i++) name = `${col} (${suffix} ${i})`;
+  return name;
+};
+
+const joinRows = (left: Dataset, right: Dataset, spec: MergeSpec): DataRow[] => {
+  const keys = spec.keys || [];
+  if (keys.length === 0) throw new Error('Join needs at least one key column');
+  const missing = keys.find(k => !(k.left in left.columnStats) || !(k.right in right.columnStats));
+  if (missing) {
+    throw new Error(`Key column "${missing.left in left.columnStats ? missing.right : missing.left}" not found`);
+  }
+
+  const leftKeys = keys.map(k => k.left);
+  const rightKeys = keys.map(k => k.right);
+  // Right key columns are folded into the left ones; other clashing names get a suffix
+  const taken = new Set(Object.keys(left.columnStats));
+  const rightColumns: [string, string][] = [];
+  Object.keys(right.columnStats).forEach(col => {
+    if (rightKeys.includes(col)) return;
+    const name = taken.has(col) ? getUniqueName(col, right.name, taken) : col;
+    taken.add(name);
+    rightColumns.push([col, name]);
+  });
+  const projectRight = (row: DataRow) => {
+    const out: DataRow = {};
+    rightColumns.forEach(([col, name]) => { if (col in row) out[name] = row[col]; });
+    return out;
+  };
+
+  const index = new Map<string, DataRow[]>();
+  right.rows.forEach(row => {
+    const key = getJoinKey(row, rightKeys);
+    if (key === null) return;
+    const bucket = index.get(key);
+    if (bucket) bucket.push(row);
+    else index.set(key, [row]);
+  });
+
+  const result: DataRow[] = [];
+  const matched = new Set<string>();
+  left.rows.forEach(row => {
+    const key = getJoinKey(row, leftKeys);
+    const matches = key === null ? undefined : index.get(key);
+    if (matches) {
+      matched.add(key!);
+      matches.forEach(match => result.push({ ...row, ...projectRight(match) }));
+    } else if (spec.kind !== 'inner') {
+      result.push({ ...row });
+    }
+  });
+
+  if (spec.kind === 'full') {
+    right.rows.forEach(row => {
+      const key = getJoinKey(row, rightKeys);
+      if (key !== null && matched.has(key)) return;
+      const out = projectRight(row);
+      keys.forEach(k => { if (k.right in row) out[k.left] = row[k.right]; });
+      result.push(out);
+    });
+  }
+  return result;
+};
+
+const appendRows = (sources: Dataset[], spec: MergeSpec): DataRow[] => {
+  const sourceColumn = spec.sourceColumn?.trim();
+  return sources.flatMap(ds => sourceColumn
+    ? ds.rows.map(row => ({ ...row, [sourceColumn]: ds.name }))
+    : ds.rows
+  );
+};
+
+// Columns that only some of the appended datasets have
+export const getMismatchedColumns = (sources: Dataset[]): string[] => {
+  const all = new Set(sources.flatMap(ds => Object.keys(ds.columnStats)));
+  return Array.from(all).filter(col => sources.some(ds => !(col in ds.columnStats)));
+};
+
+const getSources = (spec: MergeSpec, datasets: Dataset[]): Dataset[] =>
+  spec.sourceIds.map(id => {
+    const ds = datasets.find(d => d.id === id);
+    if (!ds) throw new Error('A source dataset has been removed');
+    return ds;
+  });
+
+export const mergeRows = (spec: MergeSpec, datasets: Dataset[]): DataRow[] => {
+  const sources = getSources(spec, datasets);
+  if (spec.kind === 'append') {
+    if (sources.length < 2) throw new Error('Append needs at least two datasets');
+    return appendRows(sources, spec);
+  }
+  if (sources.length !== 2) throw new Error('Join needs exactly two datasets');
+  return joinRows(sources[0], sources[1], spec);
+};
+
+// Builds a new dataset from the spec; types are inferred afresh from the merged rows
+export const createMergedDataset = (name: string, spec: MergeSpec, datasets: Dataset[]): Dataset => {
+  const rows = mergeRows(spec, datasets);
+  if (rows.length === 0) throw new Error('The merge produced no rows');
+  return { ...createDataset(name, rows), derivedFrom: spec };
+};
+
+// Rebuilds a derived dataset from the current sources, keeping its id, schema edits
+// and calculated fields
+export const rebuildMergedDataset = (ds: Dataset, datasets: Dataset[]): Dataset => {
+  const fresh = createMergedDataset(ds.name, ds.derivedFrom!, datasets);
+  return reapplyDatasetSchema({ ...fresh, id: ds.id }, ds);
+};
+
+// Derived datasets built, directly or through another derived dataset, from `id`
+export const getDependentDatasets = (datasets: Dataset[], id: string): Dataset[] => {
+  const sources = new Set([id]);
+  const dependents: Dataset[] = [];
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    datasets.forEach(ds => {
+      if (!ds.derivedFrom || sources.has(ds.id) || !ds.derivedFrom.sourceIds.some(src => sources.has(src))) return;
+      sources.add(ds.id);
+      dependents.push(ds);
+      progressed = true;
+    });
+  }
+  return dependents;
+};
+
+// Rebuilds every derived dataset that depends, directly or through another derived
+// dataset, on one of `changedIds`. Failed rebuilds keep their old data and are reported.
+export const rebuildDerivedDatasets = (datasets: Dataset[], changedIds: string[]): { datasets: Dataset[]; failed: { name: string; error: string }[] } => {
+  const changed = new Set(changedIds);
+  const failed: { name: string; error: string }[] = [];
+  let next = datasets;
+  // Repeat until stable, so chains resolve whatever order the datasets are listed in
+  let progressed = true;
+  const done = new Set<string>();
+  while (progressed) {
+    progressed = false;
+    next.forEach(ds => {
+      if (!ds.derivedFrom || done.has(ds.id) || !ds.derivedFrom.sourceIds.some(id => changed.has(id))) return;
+      done.add(ds.id);
+      progressed = true;
+      try {
+        const rebuilt = rebuildMergedDataset(ds, next);
+        next = next.map(d => d.id === ds.id ? rebuilt : d);
+        changed.add(ds.id);
+      } catch (err) {
+        failed.push({ name: ds.name, error: (err as Error).message });
+      }
+    });
+  }
+  return { datasets: next, failed };
+};
+
+// Follows a column rename in a source dataset into the join keys of derived datasets
+export const renameMergeKey = (ds: Dataset, sourceId: string, from: string, to: string): Dataset => {
+  const spec = ds.derivedFrom;
+  if (!spec?.keys || !spec.sourceIds.includes(sourceId)) return ds;
+  const side = spec.sourceIds.indexOf(sourceId) === 0 ? 'left' : 'right';
+  if (!spec.keys.some(k => k[side] === from)) return ds;
+  return {
+    ...ds,
+    derivedFrom: { ...spec, keys: spec.keys.map(k => k[side] === from ? { ...k, [side]: to } : k) }
+  };
+};
@@ -0,0 +1,81 @@
+// Minimal PDF writer: one JPEG image per page, nothing else. Enough for board reports
+// without pulling a PDF library into an offline bundle.
+
+export type PaperSize = 'A4' | 'A3';
+
+// Portrait page size in points (1/72 inch)
+export const PAPER_POINTS: { [p in PaperSize]: [number, number] } = {
+  A4: [595.28, 841.89],
+  A3: [841.89, 1190.55]
+};
+
+export const PAGE_MARGIN = 28; // pt, about 1 cm
+
+export interface PdfPage {
+  jpeg: Uint8Array;
+  width: number;  // Image size in pixels
+  height: number;
+}
+
+const encoder = new TextEncoder();
+
+// Pages are laid out at the given size; each image is scaled to the printable width
+// (or height, if that is the tighter fit) and anchored to the top margin.
+export const buildPdf = (pages: PdfPage[], pageWidth: number, pageHeight: number): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  // Object numbers: 1 catalog, 2 page tree, then image / content / page per page
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  const pageIds = pages.map((_p, i) => 3 + i * 3 + 2);
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  const fmt = (n: number) => n.toFixed(2);
+  pages.forEach((page, i) => {
+    const imageId = 3 + i * 3;
+    const contentId = imageId + 1;
+    const pageId = imageId + 2;
+
+    beginObject(imageId);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+
+    const maxWidth = pageWidth - PAGE_MARGIN * 2;
+    const maxHeight = pageHeight - PAGE_MARGIN * 2;
+    const scale = Math.min(maxWidth / page.width, maxHeight / page.height);
+    const w = page.width * scale;
+    const h = page.height * scale;
+    // PDF y runs upwards from the bottom edge
+    const content = `q ${fmt(w)} 0 0 ${fmt(h)} ${fmt(PAGE_MARGIN)} ${fmt(pageHeight - PAGE_MARGIN - h)} cm /Im0 Do Q`;
+    beginObject(contentId);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(pageWidth)} ${fmt(pageHeight)}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,87 @@
+import { Dataset } from './data';
+import { Board, GlobalSlicerState, duplicateBoard } from './board';
+import { isSlicerActive } from './filters';
+import { WORKSPACE_SCHEMA_VERSION, upgradeWorkspace, upgradeDataset } from './storage';
+
+// Project bundle (.dashboard): a single JSON file that carries boards, global slicers
+// and optionally the datasets they were built on, so a finished dashboard can be
+// handed to another offline machine.
+
+export const PROJECT_FILE_EXTENSION = '.dashboard';
+const PROJECT_FORMAT = 'offline-dashboard-project';
+
+// Column schema of every dataset referenced by the boards, kept even when rows are not
+// embedded so the receiver can see what each widget was built on.
+export interface ProjectDatasetInfo {
+  id: string;
+  name: string;
+  columns: string[];
+}
+
+interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: number;
+  boards: Board[];
+  slicers: GlobalSlicerState;
+  datasetInfo: ProjectDatasetInfo[];
+  datasets?: Dataset[];
+}
+
+export interface ImportedProject {
+  boards: Board[];
+  slicers: GlobalSlicerState;
+  datasetInfo: ProjectDatasetInfo[];
+  datasets: Dataset[];
+}
+
+export const buildProjectFile = (
+  boards: Board[],
+  slicers: GlobalSlicerState,
+  datasets: Dataset[],
+  includeData: boolean
+): Blob => {
+  const usedIds = new Set(boards.flatMap(b => b.widgets.map(w => w.datasetId)));
+  const usedDatasets = datasets.filter(d => usedIds.has(d.id));
+
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: WORKSPACE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    boards,
+    slicers,
+    datasetInfo: usedDatasets.map(d => ({ id: d.id, name: d.name, columns: d.columns })),
+    datasets: includeData ? usedDatasets : undefined
+  };
+  return new Blob([JSON.stringify(project)], { type: 'application/json' });
+};
+
+// Parses a project file and gives every board and widget a fresh id so it can be merged
+// into an existing workspace (even one it came from) without clobbering what is there.
+export const parseProjectFile = (text: string): ImportedProject => {
+  const raw = JSON.parse(text);
+  if (!raw || raw.format !== PROJECT_FORMAT) {
+    throw new Error("Not a dashboard project file");
+  }
+  const version = typeof raw.version === 'number' ? raw.version : 0;
+  const project: ProjectFile = upgradeWorkspace(raw, version);
+
+  return {
+    boards: (project.boards || []).map(b => ({ ...duplicateBoard(b, b.name), createdAt: b.createdAt })),
+    slicers: project.slicers || {},
+    datasetInfo: project.datasetInfo || [],
+    datasets: (project.datasets || []).map(d => upgradeDataset(d, version))
+  };
+};
+
+// Imported global slicers only fill columns the workspace does not filter yet; the
+// columns already set keep their current slicer and are reported back
+export const mergeProjectSlicers = (current: GlobalSlicerState, imported: GlobalSlicerState): { slicers: GlobalSlicerState; skipped: string[] } => {
+  const slicers = { ...current };
+  const skipped: string[] = [];
+  Object.entries(imported).forEach(([col, slicer]) => {
+    if (isSlicerActive(current[col])) skipped.push(col);
+    else slicers[col] = slicer;
+  });
+  return { slicers, skipped };
+};
@@ -0,0 +1,41 @@
+import { Dataset, DataRow, ColumnType, createDataset } from './data';
+import { Board, getWidgetColumns } from './board';
+import { reapplyDatasetSchema } from './schema';
+
+// Replacing a dataset's rows with a newer export of the same file. The dataset keeps its
+// id, name, schema edits and calculated fields, so every widget bound to it stays put.
+
+export interface ReplacementIssue {
+  column: string;
+  problem: 'missing' | 'typeChanged';
+  fromType: ColumnType;
+  toType?: ColumnType;
+  widgets: string[]; // Titles of the widgets reading the column
+}
+
+export const buildReplacement = (current: Dataset, rows: DataRow[]): Dataset => {
+  const fresh = createDataset(current.name, rows);
+  return reapplyDatasetSchema({ ...fresh, id: current.id }, current);
+};
+
+// Columns that widgets bound to the dataset read and that the new data lacks or types differently
+export const checkReplacement = (current: Dataset, next: Dataset, boards: Board[]): ReplacementIssue[] => {
+  const usage = new Map<string, string[]>();
+  boards.forEach(board => board.widgets.forEach(widget => {
+    if (widget.datasetId !== current.id) return;
+    getWidgetColumns(widget).forEach(col => usage.set(col, [...(usage.get(col) || []), widget.title]));
+  }));
+
+  const issues: ReplacementIssue[] = [];
+  usage.forEach((widgets, column) => {
+    const before = current.columnStats[column];
+    if (!before) return; // Already broken before the replacement
+    const after = next.columnStats[column];
+    if (!after) {
+      issues.push({ column, problem: 'missing', fromType: before.type, widgets });
+    } else if (after.type !== before.type) {
+      issues.push({ column, problem: 'typeChanged', fromType: before.type, toType: after.type, widgets });
+    }
+  });
+  return issues;
+};
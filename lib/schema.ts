@@ -0,0 +1,209 @@
+import { Dataset, DataRow, ColumnOverride, ColumnStats, ColumnType, CalculatedField, buildColumnLists } from './data';
+import { coerceValue, keepsSourceForm, inferColumn, isEmptyValue, parseDate } from './inference';
+import { compileExpression, renameExpressionColumn, CompiledExpression } from './expression';
+
+// Manual column schema edits (type, name, visibility, date format) and calculated
+// fields on an imported dataset.
+
+// Source-file header for a column, following any rename
+export const getSourceColumn = (ds: Dataset, col: string) => {
+  const overrides = ds.columnOverrides || {};
+  return Object.keys(overrides).find(src => overrides[src].name === col) ?? col;
+};
+
+export const getColumnOverride = (ds: Dataset, col: string): ColumnOverride => {
+  return ds.columnOverrides?.[getSourceColumn(ds, col)] || {};
+};
+
+export const getHiddenColumns = (ds: Dataset) => {
+  return Object.keys(ds.columnStats).filter(col => getColumnOverride(ds, col).hidden);
+};
+
+// Share of non-empty values that already have the canonical form for the type
+const measureConfidence = (rows: DataRow[], col: string, type: ColumnType) => {
+  const values = rows.map(r => r[col]).filter(v => !isEmptyValue(v));
+  if (values.length === 0) return 0;
+  if (type === 'text') return 1;
+  const matched = values.filter(v => type === 'numeric' ? typeof v === 'number' : parseDate(v) !== null);
+  return matched.length / values.length;
+};
+
+export const renameKey = <T>(obj: { [key: string]: T }, from: string, to: string) => {
+  const next: { [key: string]: T } = {};
+  Object.keys(obj).forEach(key => { next[key === from ? to : key] = obj[key]; });
+  return next;
+};
+
+// Applies one schema change to a column and re-coerces its values to match. Values are
+// always coerced from the file's original cells, so a type or date format change can be
+// undone or can fix a value an earlier guess got wrong.
+export const updateColumnSchema = (ds: Dataset, col: string, change: ColumnOverride): Dataset => {
+  const source = getSourceColumn(ds, col);
+  const previous = ds.columnOverrides?.[source] || {};
+  const override: ColumnOverride = { ...previous, ...change };
+  const newName = change.name?.trim() || col;
+  if (newName !== col && ds.columnStats[newName]) {
+    throw new Error(`字段 "${newName}" 已存在`);
+  }
+
+  let rows = ds.rows;
+  let columnStats = ds.columnStats;
+  let originalValues = ds.originalValues;
+
+  if (newName !== col) {
+    rows = rows.map(row => {
+      if (!(col in row)) return row;
+      const { [col]: value, ...rest } = row;
+      return { ...rest, [newName]: value };
+    });
+    columnStats = renameKey(columnStats, col, newName);
+  }
+  if (newName === source) delete override.name;
+  else override.name = newName;
+
+  const oldStats = columnStats[newName];
+  const newType = change.type ?? oldStats.type;
+  if (change.type !== undefined || change.dateFormat !== undefined) {
+    const stats: ColumnStats = {
+      ...oldStats,
+      type: newType,
+      // Numbers moved into a date column are most likely Excel serial dates
+      serialDates: newType === 'date' && (oldStats.serialDates || oldStats.type === 'numeric')
+    };
+    const originals = ds.originalValues?.[source] || {};
+    const changed: { [row: number]: any } = {};
+    let changedCount = 0;
+    rows = rows.map((row, i) => {
+      if (!(newName in row)) return row;
+      const original = i in originals ? originals[i] : row[newName];
+      const value = coerceValue(original, stats, override.dateFormat);
+      if (!keepsSourceForm(value, original)) {
+        changed[i] = original;
+        changedCount++;
+      }
+      return { ...row, [newName]: value };
+    });
+    const { [source]: _previous, ...otherOriginals } = ds.originalValues || {};
+    originalValues = changedCount > 0 ? { ...otherOriginals, [source]: changed } : otherOriginals;
+    stats.confidence = measureConfidence(rows, newName, newType);
+    columnStats = { ...columnStats, [newName]: stats };
+  }
+
+  const columnOverrides = { ...(ds.columnOverrides || {}), [source]: override };
+  const calculatedFields = newName !== col
+    ? ds.calculatedFields?.map(f => ({ ...f, expression: renameExpressionColumn(f.expression, col, newName) }))
+    : ds.calculatedFields;
+  const next: Dataset = { ...ds, rows, columnStats, columnOverrides, originalValues, calculatedFields };
+  // Calculated fields may read the changed column
+  return calculatedFields?.length
+    ? recomputeCalculatedFields(next)
+    : { ...next, ...buildColumnLists(columnStats, getHiddenColumns(next)) };
+};
+
+export const isCalculatedColumn = (ds: Dataset, col: string) =>
+  !!ds.calculatedFields?.some(f => f.name === col);
+
+// Checks a field against the columns it can see: the dataset's own columns plus the
+// calculated fields listed before it. Returns an error message, or null when valid.
+export const validateCalculatedField = (ds: Dataset, fields: CalculatedField[], index: number): string | null => {
+  const field = fields[index];
+  const name = field.name.trim();
+  if (!name) return '请填写字段名称';
+  const sourceColumns = Object.keys(ds.columnStats).filter(col => !isCalculatedColumn(ds, col));
+  const earlier = fields.slice(0, index).map(f => f.name);
+  if (sourceColumns.includes(name) || fields.some((f, i) => i !== index && f.name === name)) {
+    return `字段 "${name}" 已存在`;
+  }
+  let compiled: CompiledExpression;
+  try {
+    compiled = compileExpression(field.expression);
+  } catch (err) {
+    return (err as Error).message;
+  }
+  const unknown = compiled.columns.find(col => !sourceColumns.includes(col) && !earlier.includes(col));
+  return unknown ? `字段 "${unknown}" 不存在` : null;
+};
+
+// Type of a computed column. All-number results are always numeric, even under a
+// date-like header such as "年份".
+const inferCalculatedStats = (rows: DataRow[], col: string): ColumnStats => {
+  const values = rows.map(r => r[col]).filter(v => v !== null);
+  if (values.length > 0 && values.every(v => typeof v === 'number')) {
+    return { type: 'numeric', confidence: 1, nullCount: rows.length - values.length };
+  }
+  return inferColumn(rows, col);
+};
+
+// Drops the previous calculated columns and evaluates `fields` row by row. Invalid
+// fields throw when `strict`, otherwise they are left out of the data (their definition
+// is kept so the user can fix it, e.g. after a source column disappeared).
+const applyCalculatedFields = (ds: Dataset, fields: CalculatedField[], strict: boolean): Dataset => {
+  const previous = new Set((ds.calculatedFields || []).map(f => f.name));
+  const columnStats = { ...ds.columnStats };
+  previous.forEach(name => { delete columnStats[name]; });
+  const base: Dataset = { ...ds, columnStats, calculatedFields: undefined };
+
+  const compiled: [string, CompiledExpression][] = [];
+  fields.forEach((field, index) => {
+    const error = validateCalculatedField(base, fields, index);
+    if (error) {
+      if (strict) throw new Error(`${field.name || '?'}：${error}`);
+      return;
+    }
+    compiled.push([field.name.trim(), compileExpression(field.expression)]);
+  });
+
+  let rows = ds.rows.map(row => {
+    const next: DataRow = {};
+    Object.keys(row).forEach(col => { if (!previous.has(col)) next[col] = row[col]; });
+    compiled.forEach(([name, expr]) => {
+      const val = expr.evaluate(next);
+      next[name] = typeof val === 'boolean' ? (val ? 'TRUE' : 'FALSE') : val;
+    });
+    return next;
+  });
+
+  compiled.forEach(([name]) => {
+    const stats = inferCalculatedStats(rows, name);
+    if (stats.type !== 'numeric') {
+      rows = rows.map(row => ({ ...row, [name]: coerceValue(row[name], stats) }));
+    }
+    columnStats[name] = stats;
+  });
+
+  const next: Dataset = {
+    ...ds,
+    rows,
+    columnStats,
+    calculatedFields: fields.length > 0 ? fields.map(f => ({ ...f, name: f.name.trim() })) : undefined
+  };
+  return { ...next, ...buildColumnLists(columnStats, getHiddenColumns(next)) };
+};
+
+// Replaces the dataset's calculated fields; throws if any of them is invalid
+export const setCalculatedFields = (ds: Dataset, fields: CalculatedField[]): Dataset =>
+  applyCalculatedFields(ds, fields, true);
+
+// Re-evaluates the calculated fields after the underlying data changed
+export const recomputeCalculatedFields = (ds: Dataset): Dataset =>
+  applyCalculatedFields(ds, ds.calculatedFields || [], false);
+
+// Carries the manual schema edits and calculated fields of `previous` over to a freshly
+// built version of the same data. Edits to columns the new data lacks are kept so they
+// apply again if the column comes back.
+export const reapplyDatasetSchema = (next: Dataset, previous: Dataset): Dataset => {
+  let ds = next;
+  Object.entries(previous.columnOverrides || {}).forEach(([source, override]) => {
+    if (!(source in ds.columnStats)) return;
+    try {
+      ds = updateColumnSchema(ds, source, override);
+    } catch {
+      // A rename that now clashes with a new column is dropped
+    }
+  });
+  return recomputeCalculatedFields({
+    ...ds,
+    columnOverrides: { ...previous.columnOverrides, ...ds.columnOverrides },
+    calculatedFields: previous.calculatedFields
+  });
+};
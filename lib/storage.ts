@@ -0,0 +1,252 @@
+import { Dataset, ColumnType } from './data';
+import { inferColumns } from './inference';
+import { Board, GlobalSlicerState, SplitLayout } from './board';
+import { BoardTemplate } from './template';
+
+// Workspace persistence.
+// - Parsed datasets (potentially large) live in IndexedDB, one record per dataset.
+// - Boards, slicers and view preferences are small and go to localStorage as JSON.
+// Both are stamped with WORKSPACE_SCHEMA_VERSION so older saves can be migrated on load.
+
+export const WORKSPACE_SCHEMA_VERSION = 3;
+
+const DB_NAME = 'offline-dashboard';
+const DB_VERSION = 1;
+const DATASET_STORE = 'datasets';
+const WORKSPACE_KEY = 'offline-dashboard:workspace';
+const TEMPLATES_KEY = 'offline-dashboard:templates';
+
+export interface Workspace {
+  boards: Board[];
+  slicers: GlobalSlicerState;
+  selectedBoardIds: string[];
+  splitLayout: SplitLayout;
+  activeDatasetId: string | null;
+}
+
+export interface LoadedWorkspace extends Workspace {
+  datasets: Dataset[];
+}
+
+interface StoredWorkspace extends Workspace {
+  version: number;
+  datasetIds: string[]; // Keeps the sidebar order of datasets
+  savedAt: number;
+}
+
+interface StoredDataset {
+  version: number;
+  dataset: Dataset;
+}
+
+// v3 turned slicers from plain value lists into typed slicer objects
+const toValueSlicers = (filters: any) => {
+  if (!filters) return filters;
+  const upgraded: { [column: string]: any } = {};
+  Object.entries(filters).forEach(([col, values]) => {
+    upgraded[col] = Array.isArray(values) ? { kind: 'values', values } : values;
+  });
+  return upgraded;
+};
+
+// Upgrade steps keyed by the version they upgrade FROM.
+// Add an entry here whenever WORKSPACE_SCHEMA_VERSION is bumped.
+const workspaceMigrations: { [fromVersion: number]: (ws: any) => any } = {
+  2: ws => ({
+    ...ws,
+    slicers: toValueSlicers(ws.slicers),
+    boards: (ws.boards || []).map((b: any) => ({ ...b, filters: toValueSlicers(b.filters) }))
+  })
+};
+const datasetMigrations: { [fromVersion: number]: (ds: any) => any } = {
+  // v2 added per-column stats; keep the column types the user already had
+  1: ds => {
+    const columnStats = inferColumns(ds.rows, ds.columns);
+    ds.columns.forEach((col: string) => {
+      const type: ColumnType = ds.numericColumns.includes(col) ? 'numeric'
+        : ds.dateColumns.includes(col) ? 'date' : 'text';
+      columnStats[col] = { ...columnStats[col], type };
+    });
+    return { ...ds, columnStats };
+  }
+};
+
+// Templates first appeared in v3; a later change to widget configs needs a step here too
+const templateMigrations: { [fromVersion: number]: (templates: any[]) => any[] } = {};
+
+const migrate = (value: any, fromVersion: number, steps: { [fromVersion: number]: (v: any) => any }) => {
+  if (fromVersion > WORKSPACE_SCHEMA_VERSION) {
+    throw new Error(`Data was saved by a newer version (schema v${fromVersion})`);
+  }
+  let current = value;
+  for (let v = fromVersion; v < WORKSPACE_SCHEMA_VERSION; v++) {
+    const step = steps[v];
+    if (step) current = step(current);
+  }
+  return current;
+};
+
+// Also used by project files, which carry boards/slicers/datasets in the same shapes.
+export const upgradeWorkspace = (raw: any, fromVersion: number) => migrate(raw, fromVersion, workspaceMigrations);
+export const upgradeDataset = (raw: any, fromVersion: number): Dataset => migrate(raw, fromVersion, datasetMigrations);
+export const upgradeTemplates = (raw: any[], fromVersion: number): BoardTemplate[] => migrate(raw, fromVersion, templateMigrations);
+
+// --- IndexedDB helpers ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DATASET_STORE)) {
+          db.createObjectStore(DATASET_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async (
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(DATASET_STORE, mode);
+    work(tx.objectStore(DATASET_STORE));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const readAllDatasets = async (): Promise<Map<string, StoredDataset>> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(DATASET_STORE, 'readonly');
+    const store = tx.objectStore(DATASET_STORE);
+    const result = new Map<string, StoredDataset>();
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        result.set(String(cursor.key), cursor.value as StoredDataset);
+        cursor.continue();
+      } else {
+        resolve(result);
+      }
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+// Datasets are immutable in App state, so reference equality tells us what changed
+// since the last save and we only rewrite those records.
+let persistedDatasets = new Map<string, Dataset>();
+
+// Writes the records of new or changed datasets
+const putDatasets = async (datasets: Dataset[]) => {
+  const changed = datasets.filter(d => persistedDatasets.get(d.id) !== d);
+  if (changed.length === 0) return;
+  await runTransaction('readwrite', store => {
+    changed.forEach(d => {
+      const record: StoredDataset = { version: WORKSPACE_SCHEMA_VERSION, dataset: d };
+      store.put(record, d.id);
+    });
+  });
+  changed.forEach(d => persistedDatasets.set(d.id, d));
+};
+
+// Deletes the records of datasets that are gone
+const deleteStaleDatasets = async (datasets: Dataset[]) => {
+  const ids = new Set(datasets.map(d => d.id));
+  const removed = Array.from(persistedDatasets.keys()).filter(id => !ids.has(id));
+  if (removed.length === 0) return;
+  await runTransaction('readwrite', store => removed.forEach(id => store.delete(id)));
+  removed.forEach(id => persistedDatasets.delete(id));
+};
+
+// Saves run one at a time, so an older save can not delete records a newer one points to
+let saveQueue: Promise<void> = Promise.resolve();
+
+// --- Public API ---
+
+// Returns null when nothing has been saved yet (first launch).
+export const loadWorkspace = async (): Promise<LoadedWorkspace | null> => {
+  const json = localStorage.getItem(WORKSPACE_KEY);
+  if (!json) return null;
+
+  const raw = JSON.parse(json);
+  const version = typeof raw.version === 'number' ? raw.version : 0;
+  const stored: StoredWorkspace = upgradeWorkspace(raw, version);
+
+  const records = await readAllDatasets();
+  const datasets: Dataset[] = [];
+  (stored.datasetIds || []).forEach(id => {
+    const record = records.get(id);
+    if (!record) return;
+    datasets.push(upgradeDataset(record.dataset, record.version ?? 0));
+  });
+  persistedDatasets = new Map(datasets.map(d => [d.id, d] as [string, Dataset]));
+
+  // Drop records that are no longer referenced (e.g. the window closed mid-save)
+  const orphanIds = Array.from(records.keys()).filter(id => !persistedDatasets.has(id));
+  if (orphanIds.length > 0) {
+    runTransaction('readwrite', store => orphanIds.forEach(id => store.delete(id)))
+      .catch(err => console.error('Failed to clean up stale datasets', err));
+  }
+
+  return {
+    boards: stored.boards || [],
+    slicers: stored.slicers || {},
+    selectedBoardIds: stored.selectedBoardIds || [],
+    splitLayout: stored.splitLayout || 'grid',
+    activeDatasetId: stored.activeDatasetId ?? null,
+    datasets
+  };
+};
+
+// The dataset records go in before the workspace that names them, and stale records are
+// only deleted after it: a window closed mid-save still finds the last workspace whole.
+export const saveWorkspace = (workspace: Workspace, datasets: Dataset[]): Promise<void> => {
+  const run = saveQueue.then(async () => {
+    await putDatasets(datasets);
+    const stored: StoredWorkspace = {
+      ...workspace,
+      version: WORKSPACE_SCHEMA_VERSION,
+      datasetIds: datasets.map(d => d.id),
+      savedAt: Date.now()
+    };
+    localStorage.setItem(WORKSPACE_KEY, JSON.stringify(stored));
+    await deleteStaleDatasets(datasets);
+  });
+  saveQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Board templates are kept apart from the workspace: they name no dataset and are
+// reused across data, so project files do not carry them and undo does not touch them.
+export const loadTemplates = (): BoardTemplate[] => {
+  const json = localStorage.getItem(TEMPLATES_KEY);
+  if (!json) return [];
+  try {
+    const raw = JSON.parse(json);
+    const version = typeof raw.version === 'number' ? raw.version : 0;
+    return Array.isArray(raw.templates) ? upgradeTemplates(raw.templates, version) : [];
+  } catch (err) {
+    console.error('Failed to read board templates', err);
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: BoardTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify({ version: WORKSPACE_SCHEMA_VERSION, templates }));
+};
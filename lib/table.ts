@@ -0,0 +1,110 @@
+import _ from 'lodash';
+import { DataRow, AggregateOperation, aggregateValues, BLANK_VALUE, getValueKey } from './data';
+
+// Row sorting, number formatting and pivoting for table widgets.
+
+export type TableMode = 'detail' | 'pivot';
+
+export type TableNumberFormat = 'auto' | 'integer' | 'fixed2' | 'percent' | 'wan' | 'yi';
+
+export const NUMBER_FORMAT_LABELS: { [f in TableNumberFormat]: string } = {
+  auto: '自动',
+  integer: '整数',
+  fixed2: '两位小数',
+  percent: '百分比',
+  wan: '万',
+  yi: '亿'
+};
+
+export const TABLE_PAGE_SIZES = [20, 50, 100, 200];
+
+const isEmptyCell = (val: any) => val === undefined || val === null || val === '';
+
+export const formatTableNumber = (val: any, format: TableNumberFormat = 'auto'): string => {
+  if (isEmptyCell(val)) return '';
+  const num = Number(val);
+  if (isNaN(num)) return String(val);
+  switch (format) {
+    case 'integer': return num.toLocaleString('zh-CN', { maximumFractionDigits: 0 });
+    case 'fixed2': return num.toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    case 'percent': return `${(num * 100).toLocaleString('zh-CN', { maximumFractionDigits: 2 })}%`;
+    case 'wan': return `${(num / 10000).toLocaleString('zh-CN', { maximumFractionDigits: 2 })}万`;
+    case 'yi': return `${(num / 100000000).toLocaleString('zh-CN', { maximumFractionDigits: 2 })}亿`;
+    default: return num.toLocaleString('zh-CN', { maximumFractionDigits: 4 });
+  }
+};
+
+const compareKeys = (a: string, b: string) => a.localeCompare(b, 'zh-CN', { numeric: true });
+
+// Numbers compare numerically, everything else by zh-CN name order; empty cells always go last
+export const sortRows = (rows: DataRow[], col: string, order: 'asc' | 'desc'): DataRow[] => {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const va = a[col];
+    const vb = b[col];
+    if (isEmptyCell(va) || isEmptyCell(vb)) return Number(isEmptyCell(va)) - Number(isEmptyCell(vb));
+    if (typeof va === 'number' && typeof vb === 'number') return (va - vb) * direction;
+    return compareKeys(String(va), String(vb)) * direction;
+  });
+};
+
+export interface PivotOptions {
+  rowCol: string;
+  pivotCol?: string;   // Optional; without it the pivot is a single value column
+  valueCol: string;
+  operation: AggregateOperation;
+}
+
+export interface PivotTable {
+  rowKeys: string[];
+  columnKeys: string[];
+  cells: { [rowKey: string]: { [columnKey: string]: number } };
+  // Subtotals are aggregated from the underlying rows, so avg / distinct / median stay correct
+  rowTotals: { [rowKey: string]: number };
+  columnTotals: { [columnKey: string]: number };
+  grandTotal: number;
+}
+
+// Name order, with the blank key last
+const sortPivotKeys = (keys: string[]) => keys.sort((a, b) =>
+  a === BLANK_VALUE ? 1 : b === BLANK_VALUE ? -1 : compareKeys(a, b)
+);
+
+export const getPivotOptions = (config: any): PivotOptions => ({
+  rowCol: config.rowCol,
+  pivotCol: config.pivotCol || undefined,
+  valueCol: config.valueCol,
+  operation: config.aggregation || 'sum'
+});
+
+export const buildPivot = (rows: DataRow[], options: PivotOptions): PivotTable => {
+  const { rowCol, pivotCol, valueCol, operation } = options;
+  const byRow = _.groupBy(rows, row => getValueKey(row[rowCol]));
+  const byColumn = pivotCol ? _.groupBy(rows, row => getValueKey(row[pivotCol])) : {};
+
+  const rowKeys = sortPivotKeys(Object.keys(byRow));
+  const columnKeys = sortPivotKeys(Object.keys(byColumn));
+
+  const cells: PivotTable['cells'] = {};
+  const rowTotals: PivotTable['rowTotals'] = {};
+  rowKeys.forEach(rowKey => {
+    cells[rowKey] = {};
+    if (pivotCol) {
+      _.forEach(_.groupBy(byRow[rowKey], row => getValueKey(row[pivotCol])), (items, columnKey) => {
+        cells[rowKey][columnKey] = aggregateValues(items, valueCol, operation);
+      });
+    }
+    rowTotals[rowKey] = aggregateValues(byRow[rowKey], valueCol, operation);
+  });
+
+  const columnTotals = _.mapValues(byColumn, items => aggregateValues(items, valueCol, operation));
+
+  return {
+    rowKeys,
+    columnKeys,
+    cells,
+    rowTotals,
+    columnTotals,
+    grandTotal: aggregateValues(rows, valueCol, operation)
+  };
+};
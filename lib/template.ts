@@ -0,0 +1,106 @@
+import { Dataset, ColumnType } from './data';
+import { Board, Layout, WidgetItem, getWidgetColumnRoles, mapWidgetColumns, copyWidgets } from './board';
+import { generateId } from './utils';
+
+// Board templates: a board's layout and widgets with the dataset taken out, so the same
+// arrangement can be rebuilt on another file (one per region, product line, ...). Widgets
+// keep the column names they used; applying a template maps those onto the new dataset.
+
+export type TemplateWidget = Omit<WidgetItem, 'datasetId'>;
+
+// A column the template's widgets read, with the type it had and the roles it plays
+export interface TemplateColumn {
+  name: string;
+  type: ColumnType;
+  roles: string[]; // Widget config keys, e.g. categoryCol, valueCol
+}
+
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  createdAt: number;
+  layout: Layout[];
+  widgets: TemplateWidget[];
+  columns: TemplateColumn[];
+}
+
+// Template column -> dataset column; '' while unmatched
+export interface TemplateMapping {
+  [templateColumn: string]: string;
+}
+
+export const COLUMN_ROLE_LABELS: { [role: string]: string } = {
+  categoryCol: '分类',
+  valueCol: '数值',
+  valueCols: '数值',
+  dateCol: '日期',
+  eventCol: '事件',
+  seriesCol: '系列',
+  sortCol: '排序',
+  rowCol: '行',
+  pivotCol: '列',
+  columns: '显示列'
+};
+
+export const createBoardTemplate = (board: Board, datasets: Dataset[], name: string): BoardTemplate => {
+  if (board.widgets.length === 0) throw new Error('The board has no widgets');
+  const columns = new Map<string, TemplateColumn>();
+  board.widgets.forEach(widget => {
+    const ds = datasets.find(d => d.id === widget.datasetId);
+    getWidgetColumnRoles(widget).forEach(({ column, role }) => {
+      const entry = columns.get(column) || { name: column, type: ds?.columnStats[column]?.type || 'text', roles: [] };
+      if (!entry.roles.includes(role)) entry.roles.push(role);
+      columns.set(column, entry);
+    });
+  });
+  const copy = copyWidgets(board.widgets, board.layout);
+  return {
+    id: generateId(),
+    name,
+    createdAt: Date.now(),
+    layout: copy.layout,
+    widgets: copy.widgets.map(({ datasetId: _datasetId, ...widget }) => widget),
+    columns: Array.from(columns.values())
+  };
+};
+
+// Loose form of a column name for matching: case, spaces and underscores ignored
+const normalizeName = (name: string) => name.toLowerCase().replace(/[\s_]+/g, '');
+
+// Matches template columns to dataset columns by exact name, then by loose name
+export const matchTemplateColumns = (template: BoardTemplate, ds: Dataset): TemplateMapping => {
+  const mapping: TemplateMapping = {};
+  template.columns.forEach(col => {
+    mapping[col.name] = ds.columns.includes(col.name)
+      ? col.name
+      : ds.columns.find(c => normalizeName(c) === normalizeName(col.name)) || '';
+  });
+  return mapping;
+};
+
+export const getUnmappedColumns = (template: BoardTemplate, mapping: TemplateMapping): string[] =>
+  template.columns.map(c => c.name).filter(name => !mapping[name]);
+
+// Dataset columns to offer for a template column: those of the same type first
+export const getCandidateColumns = (ds: Dataset, type: ColumnType): string[] => [
+  ...ds.columns.filter(c => ds.columnStats[c]?.type === type),
+  ...ds.columns.filter(c => ds.columnStats[c]?.type !== type)
+];
+
+// A title that is just a column name follows that column; other titles are left as written
+const mapTitle = (title: string, mapping: TemplateMapping) =>
+  Object.keys(mapping).includes(title) && mapping[title] ? mapping[title] : title;
+
+export const applyBoardTemplate = (template: BoardTemplate, ds: Dataset, mapping: TemplateMapping, name: string): Board => {
+  const unmapped = getUnmappedColumns(template, mapping);
+  if (unmapped.length > 0) throw new Error(`No column chosen for: ${unmapped.join(', ')}`);
+  const copy = copyWidgets(template.widgets.map(w => ({ ...w, datasetId: ds.id })), template.layout);
+  return {
+    id: generateId(),
+    name,
+    layout: copy.layout,
+    widgets: copy.widgets.map(w => ({ ...mapWidgetColumns(w, col => mapping[col] || col), title: mapTitle(w.title, mapping) })),
+    filters: {},
+    createdAt: Date.now()
+  };
+};
@@ -21,3 +21,15 @@ export const CHART_COLORS = [
   "#06b6d4", // cyan
   "#f97316", // orange
 ];
+
+// Trigger a browser download for an in-memory file (works offline, no server round-trip)
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}